@@ -0,0 +1,7 @@
+/**
+ * 命令行参数中--name=value的值，没有这个参数时为undefined
+ */
+export const getOption = (args: string[], name: string) => {
+	const arg = args.find(arg => arg.startsWith(`--${name}=`))
+	return arg === undefined ? undefined : arg.slice(name.length + 3)
+}
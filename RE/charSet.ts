@@ -0,0 +1,233 @@
+/**
+ * 字符集合
+ * 用有序且互不相交的闭区间表示一组字符，作为nfa、dfa边上的标签
+ * 例如[a-z0-9_] => [[48, 57], [95, 95], [97, 122]]
+ * 区间的值为Unicode码点，这样宽范围的字符类只需要一条边
+ * 匹配时按码点读取输入，代理对（如emoji）作为一个字符处理
+ */
+
+export type CharRange = [number, number]
+
+export type CharSet = CharRange[]
+
+// 码点的最大值
+export const MAX_CHAR = 0x10ffff
+
+// 读取字符串index位置上的码点，超出范围时返回-1
+export const codeAt = (input: string, index: number) => {
+	const code = input.codePointAt(index)
+	return code === undefined ? -1 : code
+}
+
+// 码点在字符串中占的长度，基本平面以外的码点为两个代理项
+export const codeLength = (code: number) => code > 0xffff ? 2 : 1
+
+// 排序并合并重叠或相邻的区间
+export const normalize = (ranges: CharRange[]): CharSet => {
+	const sorted = ranges
+		.filter(r => r[0] <= r[1])
+		.map(r => [r[0], r[1]] as CharRange)
+		.sort((a, b) => a[0] - b[0])
+	const result: CharSet = []
+
+	sorted.forEach(range => {
+		const last = result[result.length - 1]
+		if (last && range[0] <= last[1] + 1) {
+			last[1] = Math.max(last[1], range[1])
+		} else {
+			result.push(range)
+		}
+	})
+
+	return result
+}
+
+export const fromRange = (from: number, to: number): CharSet => {
+	return normalize([[from, to]])
+}
+
+export const fromChar = (char: string): CharSet => {
+	const code = codeAt(char, 0)
+	return [[code, code]]
+}
+
+export const union = (...sets: CharSet[]): CharSet => {
+	return normalize(sets.reduce((all, set) => all.concat(set), [] as CharRange[]))
+}
+
+// 取反，相对于[0, MAX_CHAR]
+export const negate = (set: CharSet): CharSet => {
+	const result: CharSet = []
+	let from = 0
+
+	set.forEach(range => {
+		if (range[0] > from) {
+			result.push([from, range[0] - 1])
+		}
+		from = range[1] + 1
+	})
+
+	if (from <= MAX_CHAR) {
+		result.push([from, MAX_CHAR])
+	}
+
+	return result
+}
+
+export const intersect = (a: CharSet, b: CharSet): CharSet => {
+	const result: CharSet = []
+	let i = 0
+	let j = 0
+
+	while (i < a.length && j < b.length) {
+		const from = Math.max(a[i][0], b[j][0])
+		const to = Math.min(a[i][1], b[j][1])
+
+		if (from <= to) {
+			result.push([from, to])
+		}
+
+		if (a[i][1] < b[j][1]) {
+			i++
+		} else {
+			j++
+		}
+	}
+
+	return result
+}
+
+export const subtract = (a: CharSet, b: CharSet): CharSet => {
+	return intersect(a, negate(b))
+}
+
+export const isEmpty = (set: CharSet) => set.length === 0
+
+// 二分查找字符是否在集合内
+export const has = (set: CharSet, code: number) => {
+	let low = 0
+	let high = set.length - 1
+
+	while (low <= high) {
+		const mid = (low + high) >> 1
+		if (code < set[mid][0]) {
+			high = mid - 1
+		} else if (code > set[mid][1]) {
+			low = mid + 1
+		} else {
+			return true
+		}
+	}
+
+	return false
+}
+
+/**
+ * 将多个集合切分为互不相交的最小区间
+ * 每个区间要么完整地落在某个集合内，要么与之不相交
+ * 子集构造时只需要对每个区间取一个代表字符即可
+ */
+export const splitRanges = (sets: CharSet[]): CharRange[] => {
+	const points: number[] = []
+
+	sets.forEach(set => {
+		set.forEach(range => {
+			points.push(range[0], range[1] + 1)
+		})
+	})
+
+	const bounds = points.sort((a, b) => a - b).filter((p, i, arr) => i === 0 || p !== arr[i - 1])
+	const result: CharRange[] = []
+
+	for (let i = 0; i < bounds.length - 1; i++) {
+		const range: CharRange = [bounds[i], bounds[i + 1] - 1]
+		if (sets.some(set => has(set, range[0]))) {
+			result.push(range)
+		}
+	}
+
+	return result
+}
+
+// 转化为可读的形式，便于调试
+export const toString = (set: CharSet) => {
+	const show = (code: number) => {
+		const char = String.fromCodePoint(code)
+		if (/[\x21-\x7e]/.test(char)) {
+			return char
+		}
+		return code > 0xffff ? `\\u{${code.toString(16)}}` : `\\u${('000' + code.toString(16)).slice(-4)}`
+	}
+
+	return set.map(range => range[0] === range[1] ? show(range[0]) : `${show(range[0])}-${show(range[1])}`).join('')
+}
+
+/**
+ * 常用的字符集合
+ */
+export const digitSet = fromRange(48, 57)
+
+export const wordSet = union(digitSet, fromRange(65, 90), fromRange(97, 122), fromChar('_'))
+
+export const spaceSet = normalize([
+	[9, 13], [32, 32], [0xa0, 0xa0], [0x1680, 0x1680], [0x2000, 0x200a],
+	[0x2028, 0x2029], [0x202f, 0x202f], [0x205f, 0x205f], [0x3000, 0x3000], [0xfeff, 0xfeff]
+])
+
+// .匹配除换行符以外的任意字符
+export const dotSet = negate(normalize([[10, 10], [13, 13], [0x2028, 0x2029]]))
+
+/**
+ * 大小写等价类
+ * 用宿主的大小写映射近似Unicode的简单大小写折叠（simple case folding）：
+ * 码点先转大写再转小写作为折叠后的值，映射结果不是单个码点时（如ß => SS）不折叠
+ * 土耳其语的İ、ı在折叠规则中是特例，不参与折叠
+ * 有大小写的字符都在前两个平面内，首次使用时计算一次
+ */
+let caseGroups: number[][] | null = null
+
+const getCaseGroups = () => {
+	if (caseGroups) {
+		return caseGroups
+	}
+
+	const single = (str: string) => {
+		const code = codeAt(str, 0)
+		return str.length === codeLength(code) ? code : -1
+	}
+	const groups = new Map<number, number[]>()
+
+	for (let code = 0; code <= 0x1ffff; code++) {
+		if ((code >= 0xd800 && code <= 0xdfff) || code === 0x130 || code === 0x131) {
+			continue
+		}
+
+		const upper = single(String.fromCodePoint(code).toUpperCase())
+		const folded = upper === -1 ? -1 : single(String.fromCodePoint(upper).toLowerCase())
+
+		if (folded === -1 || folded === code) {
+			continue
+		}
+
+		const group = groups.get(folded)
+		group ? group.push(code) : groups.set(folded, [folded, code])
+	}
+
+	caseGroups = []
+	groups.forEach(group => (caseGroups as number[][]).push(group))
+
+	return caseGroups
+}
+
+// 加入集合中字符的所有大小写形式
+export const caseFold = (set: CharSet): CharSet => {
+	const ranges: CharRange[] = set.slice()
+
+	getCaseGroups().forEach(group => {
+		if (group.some(code => has(set, code))) {
+			group.forEach(code => ranges.push([code, code]))
+		}
+	})
+
+	return normalize(ranges)
+}
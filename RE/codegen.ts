@@ -0,0 +1,124 @@
+import { DfaTable, re2table } from './dfaTable'
+import { CharSet, normalize } from './charSet'
+
+/**
+ * 转移表 -> js/ts代码
+ * 生成的函数不依赖./RE，可以写入文件后直接引入，语义与runTable一致（整个输入被接受才返回true）
+ *
+ * 每个状态是switch中的一个case，同一状态转移到同一目标的字符类合并为一个条件
+ * case 1:
+ *   if ((code >= 97 && code <= 122) || code === 95) state = 2
+ *   else return false
+ *   break
+ *
+ * format：
+ * ts：带类型的export function
+ * esm：export function
+ * cjs：module.exports导出，也可以直接通过new Function运行
+ */
+
+export type TCodegenFormat = 'ts' | 'esm' | 'cjs'
+
+export type TCodegenOptions = {
+	// 函数名
+	name?: string
+	format?: TCodegenFormat
+	// 写在文件开头的注释，一般为原始的正则
+	comment?: string
+}
+
+// 字符集合转化为对code的判断条件
+const setCondition = (set: CharSet) => {
+	const conditions = set.map(([from, to]) => {
+		if (from === to) {
+			return `code === ${from}`
+		}
+		return `(code >= ${from} && code <= ${to})`
+	})
+
+	return conditions.length === 1 ? conditions[0] : conditions.join(' || ')
+}
+
+export const table2code = (table: DfaTable, options: TCodegenOptions = {}) => {
+	const { name = 'match', format = 'ts', comment } = options
+	const lines: string[] = []
+	const indent = (depth: number, line: string) => lines.push('  '.repeat(depth) + line)
+
+	if (comment !== undefined) {
+		comment.split('\n').forEach(line => lines.push(`// ${line}`))
+	}
+
+	const signature = format === 'ts' ? `(input: string): boolean` : '(input)'
+	indent(0, `${format === 'cjs' ? '' : 'export '}function ${name} ${signature} {`)
+	indent(1, `const accepting = [${table.accepting.join(', ')}]`)
+	indent(1, `let state = ${table.start}`)
+	indent(1, `for (let i = 0; i < input.length; i++) {`)
+	indent(2, `const code = input.codePointAt(i)${format === 'ts' ? ' as number' : ''}`)
+	// 基本平面以外的码点占两个位置
+	indent(2, `if (code > 0xffff) i++`)
+	indent(2, `switch (state) {`)
+
+	for (let s = 0; s < table.stateCount; s++) {
+		// 目标状态 => 转移到该状态的字符集合
+		const targets = new Map<number, CharSet>()
+
+		for (let c = 0; c < table.classCount; c++) {
+			const next = table.next[s * table.classCount + c]
+			if (next !== -1) {
+				targets.set(next, normalize((targets.get(next) || []).concat(table.classes[c])))
+			}
+		}
+
+		indent(3, `case ${s}:`)
+
+		let first = true
+		targets.forEach((set, next) => {
+			indent(4, `${first ? 'if' : 'else if'} (${setCondition(set)}) state = ${next}`)
+			first = false
+		})
+
+		// 没有转移的状态直接返回，不需要break
+		if (first) {
+			indent(4, 'return false')
+		} else {
+			indent(4, 'else return false')
+			indent(4, 'break')
+		}
+	}
+
+	indent(3, 'default:')
+	indent(4, 'return false')
+	indent(2, '}')
+	indent(1, '}')
+	indent(1, 'return accepting[state]')
+	indent(0, '}')
+
+	if (format === 'cjs') {
+		lines.push('')
+		lines.push(`module.exports = { ${name} }`)
+	}
+
+	return lines.join('\n') + '\n'
+}
+
+// 正则直接生成代码，默认使用最小化的转移表
+export const re2code = (regExp: string, options: TCodegenOptions = {}, flags = '') => {
+	return table2code(re2table(regExp, true, flags), {
+		comment: `generated from /${regExp}/${flags}`,
+		...options
+	})
+}
+
+/**
+ * 在当前进程中编译生成的代码，返回匹配函数
+ * 用于和解释执行的run、原生的RegExp对比
+ */
+export const compile = (table: DfaTable): (input: string) => boolean => {
+	const code = table2code(table, { name: 'match', format: 'cjs' })
+	const module = { exports: {} as any }
+	new Function('module', code)(module)
+
+	return module.exports.match
+}
+
+export default re2code
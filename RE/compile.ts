@@ -0,0 +1,79 @@
+import * as chalk from 'chalk'
+import * as fs from 'fs'
+import * as process from 'process'
+import { re2table, runTable } from './dfaTable'
+import { TCodegenFormat, table2code, compile } from './codegen'
+import { re2dfa, run } from './re2dfa'
+import { getOption } from './args'
+
+/**
+ * 正则编译为独立代码的命令行入口
+ * npx ts-node RE/compile.ts <regex> <输出文件> [--flags=i] [--name=match] [--bench=<输入文件>]
+ *
+ * 输出文件的后缀决定格式：.ts为ts，.mjs为esm，其他为cjs
+ * --bench：对输入文件的每一行分别用生成的代码、转移表、re2dfa构造的dfa（自动机都只构造一次）、原生RegExp匹配，输出耗时
+ */
+const getFormat = (file: string): TCodegenFormat => {
+	if (/\.ts$/.test(file)) {
+		return 'ts'
+	}
+	return /\.mjs$/.test(file) ? 'esm' : 'cjs'
+}
+
+// 计时，返回匹配成功的行数和耗时
+const time = (lines: string[], match: (input: string) => boolean) => {
+	const start = Date.now()
+	const count = lines.filter(line => match(line)).length
+	return { count, ms: Date.now() - start }
+}
+
+const bench = (regExp: string, flags: string, inputFile: string) => {
+	const lines = fs.readFileSync(inputFile, 'utf8').split('\n')
+	const table = re2table(regExp, true, flags)
+	const native = new RegExp(`^(?:${regExp})$`, `u${flags}`)
+	// 与生成的代码一样只构造一次自动机
+	const startQ = re2dfa(regExp, flags)
+
+	const results: [string, (input: string) => boolean][] = [
+		['codegen', compile(table)],
+		['runTable', input => runTable(table, input)],
+		['re2dfa', input => run(startQ, input)],
+		['RegExp', input => native.test(input)]
+	]
+
+	results.forEach(([name, match]) => {
+		const { count, ms } = time(lines, match)
+		console.log(`${name}: ${count}/${lines.length} matched, ${ms}ms`)
+	})
+}
+
+const main = () => {
+	const args = process.argv.slice(2)
+	const [regExp, file] = args.filter(arg => !arg.startsWith('--'))
+	const flags = getOption(args, 'flags') || ''
+	const inputFile = getOption(args, 'bench')
+
+	if (regExp === undefined || file === undefined) {
+		console.log(chalk.red('usage: npx ts-node RE/compile.ts <regex> <outputFile> [--flags=i] [--name=match] [--bench=<inputFile>]'))
+		process.exit(1)
+	}
+
+	try {
+		const code = table2code(re2table(regExp, true, flags), {
+			name: getOption(args, 'name'),
+			format: getFormat(file),
+			comment: `generated from /${regExp}/${flags}`
+		})
+		fs.writeFileSync(file, code)
+		console.log(chalk.green(`write ${file}`))
+
+		if (inputFile !== undefined) {
+			bench(regExp, flags, inputFile)
+		}
+	} catch (e) {
+		console.log(chalk.red(e.message))
+		process.exit(1)
+	}
+}
+
+main()
@@ -0,0 +1,89 @@
+import * as assert from 'assert'
+import * as chalk from 'chalk'
+import { createLexer, LexerRuleListType } from './dfa2lexer'
+import { tokenize, TokenType } from '../tokenize'
+import { tokenRuleList } from '../simpleCompile/lexicalParser'
+import { createRandom } from '../random'
+
+/**
+ * dfa2lexer与tokenize的token流一致
+ * npx ts-node RE/dfa2lexer.test.ts
+ *
+ * simpleCompile的规则转换为./RE的正则：
+ * 1. 去掉开头的^
+ * 2. 关键字后的前向断言(?=[^a-zA-Z_0-9$]|$)去掉，最长匹配时letx是更长的标识符，let与标识符一样长时按规则的顺序取关键字
+ * 3. 字符串的函数规则改写为正则
+ */
+const keywordLookahead = '(?=[^a-zA-Z_0-9$]|$)'
+
+const lexerRules: LexerRuleListType = tokenRuleList.map(rule => ({
+	type: rule.type,
+	skip: rule.skip,
+	match: rule.match instanceof RegExp
+		? rule.match.source.replace(/^\^/, '').replace(keywordLookahead, '')
+		: '"([^"\\\\]|\\\\[\\s\\S])*"|\'([^\'\\\\]|\\\\[\\s\\S])*\''
+}))
+
+const lexer = createLexer(lexerRules)
+
+// token流或者错误信息
+const outcome = (run: () => TokenType[]) => {
+	try {
+		return JSON.stringify(run())
+	} catch (e) {
+		return `error: ${e.message}`
+	}
+}
+
+const check = (input: string) => {
+	assert.strictEqual(outcome(() => lexer(input)), outcome(() => tokenize(input, tokenRuleList)), JSON.stringify(input))
+}
+
+const types = (input: string) => lexer(input).map(token => token.type)
+
+// 关键字与标识符
+assert.deepStrictEqual(types('let letter = iffy'), ['^', 'let', 'identifier', 'assign', 'identifier', '$'])
+assert.deepStrictEqual(types('if$ true_ false'), ['^', 'identifier', 'identifier', 'boolean', '$'])
+// 最长匹配
+assert.deepStrictEqual(types('a **= b ** c === d !== !e => f'), [
+	'^', 'identifier', 'compoundAssign', 'identifier', 'operator', 'identifier', 'equal',
+	'identifier', 'unequal', 'not', 'identifier', 'arrow', 'identifier', '$'
+])
+assert.deepStrictEqual(lexer('0x1f 1.5e3 .5').map(token => token.match), ['^', '0x1f', '1.5e3', '.5', '$'])
+// 长度相同时取前面的规则：null、undefined在identifier之前
+assert.deepStrictEqual(types('null undefined nullx'), ['^', 'null', 'undefined', 'identifier', '$'])
+
+// 多行输入的位置
+const tokens = lexer('let a = 1\n  "x\ny"\nb')
+assert.deepStrictEqual(tokens.map(token => [token.loc.start.line, token.loc.start.column, token.loc.end.line, token.loc.end.column]), [
+	[1, 1, 1, 1], [1, 1, 1, 4], [1, 5, 1, 6], [1, 7, 1, 8], [1, 9, 1, 10], [2, 3, 3, 3], [4, 1, 4, 2], [4, 2, 4, 2]
+])
+
+// 无法匹配的字符
+assert.throws(() => lexer('let a\n  = @'), /Tokenize error: position 10 \(line 2, column 5\)\n2 \|   = @\n  \|     \^/)
+
+const cases = [
+	'let letter = iffy',
+	'null undefined nullx',
+	'a **= b ** c === d !== !e => f',
+	'0x1f 1.5e3 .5 0xg 1e',
+	'let a = 1\n  "x\ny"\nb',
+	'let a\n  = @',
+	'"unclosed',
+	'\'a\\\'b\' "c\\"d"'
+]
+cases.forEach(check)
+
+// 随机拼接片段
+const pieces = ['let', 'if', 'a', 'x1', '$', ' ', '\n', '=', '==', '!', '*', '**', '1', '.', '0x', 'e', '"', '\\', '😀', '@', '(', '}', ';', '?', ':', ',', '|', '&', '<', '>']
+const random = createRandom(1)
+
+for (let i = 0; i < 2000; i++) {
+	let input = ''
+	for (let j = Math.floor(random() * 10); j > 0; j--) {
+		input += pieces[Math.floor(random() * pieces.length)]
+	}
+	check(input)
+}
+
+console.log(chalk.green(`dfa2lexer matches tokenize on ${cases.length} cases and 2000 random inputs`))
@@ -0,0 +1,130 @@
+import { re2nfa, createNode, link, collectNodes, kindAt } from './re2nfa'
+import { createDfaStarts, move, TQNode } from './re2dfa'
+import { codeAt, codeLength } from './charSet'
+import { TokenType, TokenizeError } from '../tokenize'
+import { createLineMap } from '../sourceLocation'
+
+/**
+ * DFA -> 正则词法解析器
+ *
+ * 1. 每条规则的正则分别转化为nfa，end节点标记上规则的下标
+ * 2. 新建一个start节点，通过epsilon连接所有规则的nfa，合并为一个nfa
+ * 3. 合并后的nfa转化为dfa，dfa状态的tag即为匹配到的规则
+ * 4. 分词时使用最长匹配（maximal munch），长度相同时取下标最小的规则
+ *
+ * 输出的token流与tokenize一致，包含开头的'^'和结尾的'$'
+ */
+
+export type LexerRuleType = {
+	type: string
+	// 表示是否将解析结果计入token流中
+	skip?: boolean
+	// 使用./RE的正则语法，不需要^
+	match: string
+	// 正则的flags，如i表示忽略大小写
+	flags?: string
+}
+
+export type LexerRuleListType = LexerRuleType[]
+
+export const createLexer = (ruleList: LexerRuleListType) => {
+	const start = createNode('start')
+
+	ruleList.forEach((rule, i) => {
+		const ruleStart = re2nfa(rule.match, rule.flags)
+		ruleStart.type = 'normal'
+
+		collectNodes(ruleStart).forEach(node => {
+			if (node.type === 'end') {
+				node.tag = i
+			}
+		})
+
+		link(start, ruleStart, 'epsilon')
+	})
+
+	const getStart = createDfaStarts(start)
+
+	/**
+	 * 从offset开始的最长匹配
+	 * 不接受空匹配，否则分词无法前进
+	 */
+	const match = (input: string, offset: number) => {
+		let current: TQNode | null = getStart(kindAt(input, offset - 1))
+		let end = -1
+		let tag = -1
+
+		for (let i = offset; i < input.length;) {
+			const code = codeAt(input, i)
+			current = move(current, code)
+
+			if (current === null) {
+				break
+			}
+
+			i += codeLength(code)
+			const currentTag = current.tags[kindAt(input, i)]
+			if (currentTag !== undefined) {
+				end = i
+				tag = currentTag
+			}
+		}
+
+		if (end === -1) {
+			return null
+		}
+
+		return {
+			match: input.slice(offset, end),
+			type: ruleList[tag].type,
+			skip: ruleList[tag].skip
+		}
+	}
+
+	return (input: string) => {
+		let offset = 0
+		const lineMap = createLineMap(input)
+		const tokens: TokenType[] = []
+
+		// 初始token
+		tokens.push({
+			type: '^',
+			match: '^',
+			start: 0,
+			end: 0,
+			loc: lineMap.locationOf(0, 0)
+		})
+
+		while (offset < input.length) {
+			const matchToken = match(input, offset)
+
+			if (matchToken === null) {
+				throw new TokenizeError(lineMap, offset)
+			}
+
+			if (!matchToken.skip) {
+				tokens.push({
+					type: matchToken.type,
+					match: matchToken.match,
+					start: offset,
+					end: offset + matchToken.match.length,
+					loc: lineMap.locationOf(offset, offset + matchToken.match.length)
+				})
+			}
+			offset += matchToken.match.length
+		}
+
+		// 结尾token
+		tokens.push({
+			type: '$',
+			match: '$',
+			start: input.length,
+			end: input.length,
+			loc: lineMap.locationOf(input.length, input.length)
+		})
+
+		return tokens
+	}
+}
+
+export default createLexer
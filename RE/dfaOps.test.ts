@@ -0,0 +1,51 @@
+import * as assert from 'assert'
+import * as chalk from 'chalk'
+import { re2table, runTable } from './dfaTable'
+import { intersection, union, difference, complement, shortestMember, isLanguageEmpty, equivalent, reEquivalent } from './dfaOps'
+import { fromRange } from './charSet'
+
+/**
+ * 转移表上的集合运算
+ * npx ts-node RE/dfaOps.test.ts
+ */
+const table = (regExp: string) => re2table(regExp, true)
+
+// 运算的结果与期望的正则接受相同的语言
+const assertLanguage = (result: ReturnType<typeof table>, expected: string, message: string) => {
+	const { equal, counterexample } = equivalent(result, table(expected))
+	assert.ok(equal, `${message}: expected /${expected}/, counterexample ${JSON.stringify(counterexample)}`)
+}
+
+// 交、并、差
+assertLanguage(intersection(table('[a-c]+'), table('[b-d]+')), '[bc]+', 'intersection')
+assertLanguage(intersection(table('a*'), table('b+')), '[^\\s\\S]', 'empty intersection')
+assertLanguage(union(table('ab'), table('a(b|c)')), 'ab|ac', 'union')
+assertLanguage(difference(table('[a-c]+'), table('[b-d]+')), '[a-c]*a[a-c]*', 'difference')
+assertLanguage(difference(table('a*'), table('(aa)*')), 'a(aa)*', 'difference')
+
+// 补集只包含字母表内的字符
+const abAlphabet = fromRange(97, 98)
+const notAb = complement(table('(a|b)*abb'), abAlphabet)
+assert.ok(equivalent(notAb, difference(table('(a|b)*'), table('(a|b)*abb'))).equal, 'complement')
+assert.strictEqual(runTable(notAb, 'babb'), false)
+assert.strictEqual(runTable(notAb, 'bab'), true)
+assert.strictEqual(runTable(notAb, 'c'), false)
+// 默认的字母表为所有码点
+assert.strictEqual(runTable(complement(table('a')), '😀'), true)
+assert.strictEqual(runTable(complement(table('a')), 'a'), false)
+// 字母表内的补集的补集为原来的语言
+assertLanguage(complement(notAb, abAlphabet), '(a|b)*abb', 'double complement')
+
+// 最短的字符串
+assert.strictEqual(shortestMember(table('[^\\s\\S]')), null)
+assert.strictEqual(isLanguageEmpty(intersection(table('a+'), table('b+'))), true)
+assert.strictEqual(shortestMember(table('(a|b)*abb')), 'abb')
+assert.strictEqual(shortestMember(table('a*')), '')
+assert.strictEqual(shortestMember(table('x{3}|yy')), 'yy')
+
+// 不等价时的反例，以及反例属于哪一边
+assert.deepStrictEqual(reEquivalent('a(b|c)', 'ab|ac'), { equal: true })
+assert.deepStrictEqual(reEquivalent('a+', 'a*'), { equal: false, counterexample: '', acceptedByLeft: false })
+assert.deepStrictEqual(reEquivalent('ab?', 'a'), { equal: false, counterexample: 'ab', acceptedByLeft: true })
+
+console.log(chalk.green('dfa set operation cases passed'))
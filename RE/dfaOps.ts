@@ -0,0 +1,215 @@
+import { DfaTable, createClassMap, classOf, minimize, re2table, runTable } from './dfaTable'
+import { CharSet, CharRange, MAX_CHAR, fromRange, normalize, splitRanges, intersect, subtract, isEmpty } from './charSet'
+
+/**
+ * 转移表上的集合运算
+ * 表格接受的语言为整个输入被接受的字符串集合（与runTable一致）
+ *
+ * 1. 交、并、差：乘积构造，状态为两个表格的状态对，-1表示该表格已经进入死状态
+ * 2. 补：在给定的字母表上补全转移（缺少的转移指向一个新的接受状态），再翻转是否接受
+ * 3. 判空：从起始状态广度优先搜索，能到达接受状态即不为空，同时得到最短的字符串
+ * 4. 等价：两者的对称差为空则等价，否则对称差中最短的字符串即为反例
+ *
+ * 结果都经过最小化
+ */
+
+// 乘积构造，accept(false, false)必须为false，这样两边都进入死状态时可以直接丢弃
+const product = (a: DfaTable, b: DfaTable, accept: (x: boolean, y: boolean) => boolean): DfaTable => {
+	// 切分两边的字符类，在两边都属于同一对字符类的区间合并为新的字符类
+	const columns = new Map<string, { ranges: CharRange[], ca: number, cb: number }>()
+
+	splitRanges(a.classes.concat(b.classes)).forEach(range => {
+		const ca = classOf(a, range[0])
+		const cb = classOf(b, range[0])
+		const key = `${ca},${cb}`
+		const column = columns.get(key)
+
+		column ? column.ranges.push(range) : columns.set(key, { ranges: [range], ca, cb })
+	})
+
+	const classes: CharSet[] = []
+	const classPairs: [number, number][] = []
+	columns.forEach(column => {
+		classes.push(normalize(column.ranges))
+		classPairs.push([column.ca, column.cb])
+	})
+
+	const target = (table: DfaTable, state: number, c: number) => {
+		return state === -1 || c === -1 ? -1 : table.next[state * table.classCount + c]
+	}
+
+	// 状态对 => 新的状态编号
+	const indexes = new Map<string, number>()
+	const pairs: [number, number][] = []
+	const transitions: number[][] = []
+
+	const visit = (sa: number, sb: number) => {
+		if (sa === -1 && sb === -1) {
+			return -1
+		}
+
+		const key = `${sa},${sb}`
+		let index = indexes.get(key)
+
+		if (index === undefined) {
+			index = pairs.length
+			indexes.set(key, index)
+			pairs.push([sa, sb])
+		}
+
+		return index
+	}
+
+	visit(a.start, b.start)
+	for (let i = 0; i < pairs.length; i++) {
+		const [sa, sb] = pairs[i]
+		transitions.push(classPairs.map(([ca, cb]) => visit(target(a, sa, ca), target(b, sb, cb))))
+	}
+
+	const classCount = classes.length
+	const next = new Int32Array(pairs.length * classCount)
+	transitions.forEach((row, s) => {
+		row.forEach((n, c) => {
+			next[s * classCount + c] = n
+		})
+	})
+
+	return minimize({
+		classes,
+		...createClassMap(classes),
+		classCount,
+		stateCount: pairs.length,
+		start: 0,
+		accepting: pairs.map(([sa, sb]) => accept(sa !== -1 && a.accepting[sa], sb !== -1 && b.accepting[sb])),
+		next
+	})
+}
+
+export const intersection = (a: DfaTable, b: DfaTable) => product(a, b, (x, y) => x && y)
+
+export const union = (a: DfaTable, b: DfaTable) => product(a, b, (x, y) => x || y)
+
+// a接受而b不接受的字符串
+export const difference = (a: DfaTable, b: DfaTable) => product(a, b, (x, y) => x && !y)
+
+const symmetricDifference = (a: DfaTable, b: DfaTable) => product(a, b, (x, y) => x !== y)
+
+/**
+ * 补集，alphabet为字母表，默认为所有码点
+ * 包含字母表以外字符的字符串不在结果中
+ */
+export const complement = (table: DfaTable, alphabet: CharSet = fromRange(0, MAX_CHAR)) => {
+	const classes = table.classes.map(set => intersect(set, alphabet))
+	const rest = table.classes.reduce((chars, set) => subtract(chars, set), alphabet)
+	const sink = table.stateCount
+	const stateCount = table.stateCount + 1
+	// 原有的字符类之后加上字母表中剩余的字符
+	const classCount = classes.length + 1
+	const next = new Int32Array(stateCount * classCount)
+
+	for (let s = 0; s < stateCount; s++) {
+		for (let c = 0; c < classCount; c++) {
+			const set = c < classes.length ? classes[c] : rest
+			let n = sink
+
+			// 不在字母表中的字符没有转移
+			if (isEmpty(set)) {
+				n = -1
+			} else if (s !== sink && c < classes.length && table.next[s * table.classCount + c] !== -1) {
+				n = table.next[s * table.classCount + c]
+			}
+
+			next[s * classCount + c] = n
+		}
+	}
+
+	classes.push(rest)
+
+	return minimize({
+		classes,
+		...createClassMap(classes),
+		classCount,
+		stateCount,
+		start: table.start,
+		accepting: table.accepting.map(accept => !accept).concat([true]),
+		next
+	})
+}
+
+// 字符类中选一个代表字符，优先选可打印的ascii字符，其次避开单独的代理项
+const pickChar = (set: CharSet) => {
+	const candidates = [fromRange(0x21, 0x7e), fromRange(0x20, 0xd7ff), fromRange(0xe000, MAX_CHAR), set]
+	for (let candidate of candidates) {
+		const chars = intersect(set, candidate)
+		if (!isEmpty(chars)) {
+			return String.fromCodePoint(chars[0][0])
+		}
+	}
+	return null
+}
+
+/**
+ * 表格接受的最短字符串，语言为空时返回null
+ */
+export const shortestMember = (table: DfaTable): string | null => {
+	// 状态 => [前一个状态, 字符类]
+	const parents = new Map<number, [number, number]>()
+	const queue = [table.start]
+	parents.set(table.start, [-1, -1])
+
+	for (let i = 0; i < queue.length; i++) {
+		const state = queue[i]
+
+		if (table.accepting[state]) {
+			const chars: string[] = []
+			for (let current = state; current !== table.start;) {
+				const [prev, c] = parents.get(current) as [number, number]
+				chars.unshift(pickChar(table.classes[c]) as string)
+				current = prev
+			}
+			return chars.join('')
+		}
+
+		for (let c = 0; c < table.classCount; c++) {
+			const n = table.next[state * table.classCount + c]
+			if (n !== -1 && !parents.has(n) && !isEmpty(table.classes[c])) {
+				parents.set(n, [state, c])
+				queue.push(n)
+			}
+		}
+	}
+
+	return null
+}
+
+export const isLanguageEmpty = (table: DfaTable) => shortestMember(table) === null
+
+export type EquivalenceResult = {
+	equal: boolean
+	// 不等价时，只被其中一个接受的最短字符串
+	counterexample?: string
+	// 反例是否被a接受（否则被b接受）
+	acceptedByLeft?: boolean
+}
+
+export const equivalent = (a: DfaTable, b: DfaTable): EquivalenceResult => {
+	const counterexample = shortestMember(symmetricDifference(a, b))
+
+	if (counterexample === null) {
+		return { equal: true }
+	}
+
+	return {
+		equal: false,
+		counterexample,
+		acceptedByLeft: runTable(a, counterexample)
+	}
+}
+
+/**
+ * 两个正则（整个输入匹配）是否接受相同的语言
+ * reEquivalent('a(b|c)', 'ab|ac') => { equal: true }
+ */
+export const reEquivalent = (left: string, right: string, flags = '') => {
+	return equivalent(re2table(left, true, flags), re2table(right, true, flags))
+}
@@ -0,0 +1,31 @@
+import * as assert from 'assert'
+import * as chalk from 'chalk'
+import { re2table, minimize } from './dfaTable'
+import { equivalent } from './dfaOps'
+
+/**
+ * 最小化前后的状态数
+ * npx ts-node RE/dfaTable.test.ts
+ *
+ * 子集构造得到的dfa中，ab|cb读完a、c后的两个状态等价，最小化后合并为一个
+ */
+const cases: [string, number, number][] = [
+	// [正则, 最小化前的状态数, 最小化后的状态数]
+	['ab|cb', 4, 3],
+	['(ab|cb)d', 5, 4],
+	// 子集构造的结果本身已经最小
+	['(a|b)*abb', 4, 4]
+]
+
+cases.forEach(([regExp, before, after]) => {
+	const table = re2table(regExp, false)
+	const minTable = re2table(regExp, true)
+
+	assert.strictEqual(table.stateCount, before, `/${regExp}/ before minimize`)
+	assert.strictEqual(minTable.stateCount, after, `/${regExp}/ after minimize`)
+	// 最小化后接受的语言不变，再次最小化状态数不变
+	assert.ok(equivalent(table, minTable).equal, `/${regExp}/ language changed by minimize`)
+	assert.strictEqual(minimize(minTable).stateCount, after, `/${regExp}/ minimize is not idempotent`)
+})
+
+console.log(chalk.green(`${cases.length} minimize cases passed`))
@@ -0,0 +1,357 @@
+import { re2dfa, TQNode } from './re2dfa'
+import { CharSet, CharRange, splitRanges, normalize, has, codeAt, codeLength } from './charSet'
+
+/**
+ * dfa的表格表示与最小化
+ *
+ * 1. 字符类：将所有边上的字符集合切分为互不相交的区间，在所有状态上转移都相同的区间合并为一个字符类
+ * 2. 转移表：next[state * classCount + class] => state，-1表示死状态
+ * 3. 匹配时先通过classMap查到字符类，再查表，基本平面的字符都是O(1)
+ *    基本平面以外的码点很少用到，不展开成数组，而是在astral中二分查找
+ *
+ * 最小化算法：Hopcroft
+ * 先按是否接受划分为两组，不断用某组的前驱集合去切分其他组，直到所有组都无法再切分，每组即为一个状态
+ */
+
+export type DfaTable = {
+	classes: CharSet[]
+	// 基本平面的码点 => 字符类，-1表示不在任何字符类中
+	classMap: Int32Array
+	// 基本平面以外的区间，[from, to, 字符类]，按from排序
+	astral: [number, number, number][]
+	classCount: number
+	stateCount: number
+	start: number
+	accepting: boolean[]
+	next: Int32Array
+}
+
+const BMP_SIZE = 0x10000
+
+// 根据字符类创建码点的映射
+export const createClassMap = (classes: CharSet[]) => {
+	const classMap = new Int32Array(BMP_SIZE)
+	const astral: [number, number, number][] = []
+	classMap.fill(-1)
+
+	classes.forEach((set, i) => {
+		set.forEach(range => {
+			if (range[0] < BMP_SIZE) {
+				classMap.fill(i, range[0], Math.min(range[1], BMP_SIZE - 1) + 1)
+			}
+			if (range[1] >= BMP_SIZE) {
+				astral.push([Math.max(range[0], BMP_SIZE), range[1], i])
+			}
+		})
+	})
+
+	return {
+		classMap,
+		astral: astral.sort((a, b) => a[0] - b[0])
+	}
+}
+
+// 码点所在的字符类，-1表示不在任何字符类中
+export const classOf = (table: DfaTable, code: number) => {
+	if (code < BMP_SIZE) {
+		return table.classMap[code]
+	}
+
+	let low = 0
+	let high = table.astral.length - 1
+
+	while (low <= high) {
+		const mid = (low + high) >> 1
+		const [from, to, c] = table.astral[mid]
+		if (code < from) {
+			high = mid - 1
+		} else if (code > to) {
+			low = mid + 1
+		} else {
+			return c
+		}
+	}
+
+	return -1
+}
+
+/**
+ * dfa转化为表格
+ * 状态按照广度优先的顺序编号，start为0
+ */
+export const dfa2table = (startQ: TQNode): DfaTable => {
+	const states: TQNode[] = [startQ]
+	const indexes = new Map<TQNode, number>([[startQ, 0]])
+
+	for (let i = 0; i < states.length; i++) {
+		states[i].transitions.forEach(t => {
+			if (!indexes.has(t.next)) {
+				indexes.set(t.next, states.length)
+				states.push(t.next)
+			}
+		})
+	}
+
+	const labels: CharSet[] = []
+	states.forEach(q => q.transitions.forEach(t => labels.push(t.value)))
+
+	// 每个区间在所有状态上的转移，相同的区间合并为一个字符类
+	const columns = new Map<string, { ranges: CharRange[], targets: number[] }>()
+
+	splitRanges(labels).forEach(range => {
+		const targets = states.map(q => {
+			const transition = q.transitions.find(t => has(t.value, range[0]))
+			return transition ? indexes.get(transition.next) as number : -1
+		})
+		const key = targets.join(',')
+		const column = columns.get(key)
+
+		if (column) {
+			column.ranges.push(range)
+		} else {
+			columns.set(key, { ranges: [range], targets })
+		}
+	})
+
+	const classes: CharSet[] = []
+	const columnTargets: number[][] = []
+	columns.forEach(column => {
+		classes.push(normalize(column.ranges))
+		columnTargets.push(column.targets)
+	})
+
+	const classCount = classes.length
+	const next = new Int32Array(states.length * classCount)
+
+	columnTargets.forEach((targets, c) => {
+		targets.forEach((target, s) => {
+			next[s * classCount + c] = target
+		})
+	})
+
+	return {
+		classes,
+		...createClassMap(classes),
+		classCount,
+		stateCount: states.length,
+		start: 0,
+		accepting: states.map(q => q.end),
+		next
+	}
+}
+
+/**
+ * 合并在所有状态上转移都相同的字符类
+ * 最小化之后原本不同的字符类可能变得等价
+ */
+const mergeClasses = (table: DfaTable): DfaTable => {
+	const { stateCount, classCount } = table
+	const groups = new Map<string, number[]>()
+
+	for (let c = 0; c < classCount; c++) {
+		const column: number[] = []
+		for (let s = 0; s < stateCount; s++) {
+			column.push(table.next[s * classCount + c])
+		}
+		const key = column.join(',')
+		const group = groups.get(key)
+		group ? group.push(c) : groups.set(key, [c])
+	}
+
+	if (groups.size === classCount) {
+		return table
+	}
+
+	const classes: CharSet[] = []
+	const next = new Int32Array(stateCount * groups.size)
+
+	groups.forEach(group => {
+		const c = classes.length
+		classes.push(normalize(group.reduce((ranges, old) => ranges.concat(table.classes[old]), [] as CharRange[])))
+		for (let s = 0; s < stateCount; s++) {
+			next[s * groups.size + c] = table.next[s * classCount + group[0]]
+		}
+	})
+
+	return {
+		...table,
+		classes,
+		...createClassMap(classes),
+		classCount: classes.length,
+		next
+	}
+}
+
+/**
+ * Hopcroft最小化
+ * 为了让转移函数完整，额外引入一个死状态，最终与死状态等价的状态都被移除
+ */
+export const minimize = (table: DfaTable): DfaTable => {
+	const { stateCount, classCount } = table
+	const dead = stateCount
+	const total = stateCount + 1
+
+	const target = (s: number, c: number) => {
+		const n = s === dead ? -1 : table.next[s * classCount + c]
+		return n === -1 ? dead : n
+	}
+
+	// 反向边，preds[c][q]为经过字符类c到达q的所有状态
+	const preds: number[][][] = []
+	for (let c = 0; c < classCount; c++) {
+		const list: number[][] = []
+		for (let s = 0; s < total; s++) {
+			list.push([])
+		}
+		for (let s = 0; s < total; s++) {
+			list[target(s, c)].push(s)
+		}
+		preds.push(list)
+	}
+
+	const blockOf: number[] = []
+	const blocks: number[][] = []
+	const accepted: number[] = []
+	const rejected: number[] = []
+
+	for (let s = 0; s < total; s++) {
+		(s !== dead && table.accepting[s] ? accepted : rejected).push(s)
+	}
+
+	[accepted, rejected].filter(block => block.length > 0).forEach(block => {
+		block.forEach(s => {
+			blockOf[s] = blocks.length
+		})
+		blocks.push(block)
+	})
+
+	const workList = blocks.map((_, i) => i)
+	const inWork = blocks.map(() => true)
+
+	while (workList.length > 0) {
+		const a = workList.pop() as number
+		const splitter = blocks[a].slice()
+		inWork[a] = false
+
+		for (let c = 0; c < classCount; c++) {
+			// 按组收集能够到达splitter的状态
+			const touched = new Map<number, number[]>()
+
+			splitter.forEach(q => {
+				preds[c][q].forEach(p => {
+					const b = blockOf[p]
+					const list = touched.get(b)
+					list ? list.push(p) : touched.set(b, [p])
+				})
+			})
+
+			touched.forEach((inside, b) => {
+				if (inside.length === blocks[b].length) return
+
+				const insideSet = new Set(inside)
+				const outside = blocks[b].filter(s => !insideSet.has(s))
+				const newBlock = blocks.length
+
+				blocks[b] = outside
+				blocks.push(inside)
+				inside.forEach(s => {
+					blockOf[s] = newBlock
+				})
+
+				if (inWork[b]) {
+					workList.push(newBlock)
+					inWork[newBlock] = true
+				} else {
+					const smaller = inside.length <= outside.length ? newBlock : b
+					workList.push(smaller)
+					inWork[smaller] = true
+					inWork[smaller === b ? newBlock : b] = false
+				}
+			})
+		}
+	}
+
+	// 从start开始重新编号，死状态所在的组不再保留
+	const deadBlock = blockOf[dead]
+	const newIndexes = new Map<number, number>()
+	const order: number[] = []
+
+	const visit = (b: number) => {
+		if (b !== deadBlock && !newIndexes.has(b)) {
+			newIndexes.set(b, order.length)
+			order.push(b)
+		}
+	}
+
+	visit(blockOf[table.start])
+	for (let i = 0; i < order.length; i++) {
+		const rep = blocks[order[i]][0]
+		for (let c = 0; c < classCount; c++) {
+			visit(blockOf[target(rep, c)])
+		}
+	}
+
+	const next = new Int32Array(Math.max(order.length, 1) * classCount)
+	next.fill(-1)
+
+	order.forEach((b, s) => {
+		const rep = blocks[b][0]
+		for (let c = 0; c < classCount; c++) {
+			const n = newIndexes.get(blockOf[target(rep, c)])
+			next[s * classCount + c] = n === undefined ? -1 : n
+		}
+	})
+
+	// 不接受任何输入时，保留一个非接受的起始状态
+	if (order.length === 0) {
+		return {
+			...table,
+			stateCount: 1,
+			start: 0,
+			accepting: [false],
+			next
+		}
+	}
+
+	return mergeClasses({
+		...table,
+		stateCount: order.length,
+		start: 0,
+		accepting: order.map(b => table.accepting[blocks[b][0]]),
+		next
+	})
+}
+
+// 正则直接转化为（最小化的）表格
+export const re2table = (regExp: string, shouldMinimize = true, flags = '') => {
+	const table = dfa2table(re2dfa(regExp, flags))
+	return shouldMinimize ? minimize(table) : table
+}
+
+/**
+ * 表格的运行
+ * 与re2dfa的run语义一致，整个输入被接受才返回true
+ */
+export const runTable = (table: DfaTable, input: string) => {
+	let state = table.start
+
+	for (let i = 0; i < input.length;) {
+		const code = codeAt(input, i)
+		const c = classOf(table, code)
+		i += codeLength(code)
+
+		if (c === -1) {
+			return false
+		}
+
+		state = table.next[state * table.classCount + c]
+
+		if (state === -1) {
+			return false
+		}
+	}
+
+	return table.accepting[state]
+}
+
+export default runTable
@@ -0,0 +1,49 @@
+import * as chalk from 'chalk'
+import * as fs from 'fs'
+import * as process from 'process'
+import { re2nfa } from './re2nfa'
+import { nfa2dfa } from './re2dfa'
+import { dfa2table, minimize } from './dfaTable'
+import { nfa2graph, dfa2graph, table2graph, toDot, toMermaid, TGraph } from './visualize'
+
+/**
+ * 自动机可视化的命令行入口
+ * npx ts-node RE/draw.ts <regex> [输出文件前缀] [--mermaid]
+ *
+ * 依次输出每一步构造的结果
+ * <前缀>.nfa.dot：thompson算法得到的nfa
+ * <前缀>.dfa.dot：子集构造法得到的dfa
+ * <前缀>.min.dot：最小化后的dfa
+ * 使用--mermaid时输出.mmd文件
+ */
+const run = () => {
+	const args = process.argv.slice(2)
+	const mermaid = args.includes('--mermaid')
+	const [regExp, prefix = 'automaton'] = args.filter(arg => arg !== '--mermaid')
+
+	if (regExp === undefined) {
+		console.log(chalk.red('usage: npx ts-node RE/draw.ts <regex> [outputPrefix] [--mermaid]'))
+		process.exit(1)
+	}
+
+	try {
+		const start = re2nfa(regExp)
+		const startQ = nfa2dfa(start)
+		const steps: [string, TGraph][] = [
+			['nfa', nfa2graph(start)],
+			['dfa', dfa2graph(startQ)],
+			['min', table2graph(minimize(dfa2table(startQ)))]
+		]
+
+		steps.forEach(([step, graph]) => {
+			const file = `${prefix}.${step}.${mermaid ? 'mmd' : 'dot'}`
+			fs.writeFileSync(file, mermaid ? toMermaid(graph) : toDot(graph, `${regExp} (${step})`))
+			console.log(chalk.green(`write ${file}`))
+		})
+	} catch (e) {
+		console.log(chalk.red(e.message))
+		process.exit(1)
+	}
+}
+
+run()
@@ -0,0 +1,54 @@
+/**
+ * 修正继承Error的类的原型
+ * 编译到es5时Error的构造函数会返回新的对象，需要手动修正原型，否则instanceof会失效
+ */
+export const setErrorPrototype = (error: Error, prototype: object) => {
+	Object.setPrototypeOf(error, prototype)
+}
+
+/**
+ * 正则的语法错误
+ * 与匹配过程中的错误区分开，编辑器等工具可以根据offset高亮出错的位置
+ *
+ * offset：出错的位置
+ * char：该位置上的字符（完整的码点），模式串已经结束时为null
+ * expected：该位置上期望出现的内容，如 ')'、'character'
+ * reason：无法继续解析的具体原因，如 invalid range
+ * fatal：为true时无法通过尝试其他分支解决，解析器会直接向上抛出
+ * snippet：带^标记的模式串
+ */
+export class RegexSyntaxError extends Error {
+	pattern: string
+	offset: number
+	char: string | null
+	expected: string[]
+	reason: string
+	fatal: boolean
+	snippet: string
+
+	constructor (pattern: string, offset: number, reason = '', expected: string[] = [], fatal = false) {
+		const code = pattern.codePointAt(offset)
+		const char = code === undefined ? null : String.fromCodePoint(code)
+		const found = char === null ? 'end of pattern' : `'${char}'`
+		const expecting = expected.length > 0 ? `expected ${expected.map(e => e === 'character' ? e : `'${e}'`).join(', ')}` : ''
+
+		super(reason
+			? `parsing error in ${offset}: ${[reason, expecting].filter(Boolean).join(', ')}`
+			: `parsing error: position ${offset}, ${[expecting, `found ${found}`].filter(Boolean).join(', ')}`
+		)
+
+		setErrorPrototype(this, RegexSyntaxError.prototype)
+
+		this.name = 'RegexSyntaxError'
+		this.pattern = pattern
+		this.offset = offset
+		this.char = char
+		this.expected = expected
+		this.reason = reason
+		this.fatal = fatal
+		this.snippet = `${pattern}\n${' '.repeat(offset)}^`
+	}
+}
+
+// 是否为不能回溯的错误
+export const isFatal = (e: any) => e instanceof RegexSyntaxError && e.fatal
@@ -0,0 +1,338 @@
+import * as chalk from 'chalk'
+import * as process from 'process'
+import { re2nfa, createSimulator, backtrack } from './re2nfa'
+import { re2dfa, run } from './re2dfa'
+import { createLazyDfa } from './lazyDfa'
+import { re2table, runTable } from './dfaTable'
+import { compile } from './codegen'
+import { createRandom } from '../random'
+import { getOption } from './args'
+
+/**
+ * 差分模糊测试
+ * npx ts-node RE/fuzz.ts [--seed=1] [--runs=300]
+ *
+ * 1. 用带种子的随机数生成reRes文法内的正则（语法树）和输入，同一个种子的结果总是相同
+ * 2. 每个输入分别用各种运行方式匹配，与原生的RegExp(^(?:pattern)$, u)对比
+ * 3. 出现不一致时，不断删减正则的语法树和输入，直到无法再缩小，输出最小的反例
+ *
+ * 输入中不含ſ、K(U+212A)这类忽略大小写时会被当作单词字符的特殊字符，原生RegExp对它们的\b判断不同
+ */
+
+type TPatternNode = {
+	// char、set、assert为叶子节点，value为模式串中的文本
+	// group的value为(之后的前缀，quantifier的value为量词
+	type: 'char' | 'set' | 'assert' | 'group' | 'quantifier' | 'union' | 'or'
+	value: string
+	children: TPatternNode[]
+}
+
+type TCase = {
+	pattern: TPatternNode
+	flags: string
+	input: string
+}
+
+type TRunner = {
+	name: string
+	// 构造一次自动机，返回匹配函数
+	create: (pattern: string, flags: string) => (input: string) => boolean
+}
+
+const runners: TRunner[] = [
+	{
+		name: 'RegExp',
+		create: (pattern, flags) => {
+			const regExp = new RegExp(`^(?:${pattern})$`, `u${flags}`)
+			return input => regExp.test(input)
+		}
+	},
+	{
+		name: 'thompson',
+		create: (pattern, flags) => createSimulator(re2nfa(pattern, flags))
+	},
+	{
+		name: 'backtrack',
+		create: (pattern, flags) => {
+			const start = re2nfa(pattern, flags)
+			return input => backtrack(start, input)
+		}
+	},
+	{
+		name: 'dfa',
+		create: (pattern, flags) => {
+			const startQ = re2dfa(pattern, flags)
+			return input => run(startQ, input)
+		}
+	},
+	{
+		name: 'lazyDfa',
+		// 缓存很小，覆盖回退到Thompson模拟的情况
+		create: (pattern, flags) => createLazyDfa(re2nfa(pattern, flags), 3).run
+	},
+	{
+		name: 'table',
+		create: (pattern, flags) => {
+			const table = re2table(pattern, false, flags)
+			return input => runTable(table, input)
+		}
+	},
+	{
+		name: 'minTable',
+		create: (pattern, flags) => {
+			const table = re2table(pattern, true, flags)
+			return input => runTable(table, input)
+		}
+	},
+	{
+		name: 'codegen',
+		create: (pattern, flags) => compile(re2table(pattern, true, flags))
+	}
+]
+
+const inputChars = ['a', 'b', 'A', 'B', 's', 'K', '0', '_', ' ', '-', '\n', '😀']
+const patternChars = ['a', 'b', 'A', '0', '_', ' ', '-', '😀']
+const patternSets = ['.', '\\d', '\\D', '\\w', '\\W', '\\s', '\\S', '[ab]', '[^a]', '[a-c0]', '[^\\w]', '[\\d-]', '[😀-😂]']
+const asserts = ['^', '$', '\\b', '\\B']
+const quantifiers = ['*', '+', '?', '{2}', '{1,2}', '{0,}', '*?', '+?', '??', '{1,3}?']
+
+const createGenerator = (random: () => number) => {
+	const pick = <T>(list: T[]) => list[Math.floor(random() * list.length)]
+	let groupCount = 0
+
+	const leaf = (type: 'char' | 'set' | 'assert', value: string): TPatternNode => ({ type, value, children: [] })
+
+	const genAtom = (depth: number): TPatternNode => {
+		const r = random()
+
+		if (r < 0.4 || depth <= 0) {
+			return leaf('char', pick(patternChars))
+		}
+		if (r < 0.7) {
+			return leaf('set', pick(patternSets))
+		}
+
+		const prefix = pick(['', '?:', 'name'])
+		return {
+			type: 'group',
+			value: prefix === 'name' ? `?<g${++groupCount}>` : prefix,
+			children: [genOr(depth - 1)]
+		}
+	}
+
+	const genMulti = (depth: number): TPatternNode => {
+		if (random() < 0.1) {
+			return leaf('assert', pick(asserts))
+		}
+
+		const atom = genAtom(depth)
+		return random() < 0.35 ? { type: 'quantifier', value: pick(quantifiers), children: [atom] } : atom
+	}
+
+	const genUnion = (depth: number): TPatternNode => {
+		const children: TPatternNode[] = []
+		const count = 1 + Math.floor(random() * 3)
+		for (let i = 0; i < count; i++) {
+			children.push(genMulti(depth))
+		}
+		return { type: 'union', value: '', children }
+	}
+
+	const genOr = (depth: number): TPatternNode => {
+		const children = [genUnion(depth)]
+		while (random() < 0.25 && children.length < 3) {
+			children.push(genUnion(depth))
+		}
+		return children.length === 1 ? children[0] : { type: 'or', value: '', children }
+	}
+
+	const genInput = () => {
+		let input = ''
+		const length = Math.floor(random() * 7)
+		for (let i = 0; i < length; i++) {
+			input += pick(inputChars)
+		}
+		return input
+	}
+
+	return {
+		pattern: () => {
+			groupCount = 0
+			return genOr(2)
+		},
+		flags: () => random() < 0.25 ? 'i' : '',
+		input: genInput
+	}
+}
+
+const render = (node: TPatternNode): string => {
+	switch (node.type) {
+		case 'group':
+			return `(${node.value}${render(node.children[0])})`
+		case 'quantifier': {
+			const child = node.children[0]
+			// 缩小之后量词的对象可能不再是单个原子，需要加上非捕获组
+			const atomic = child.type === 'char' || child.type === 'set' || child.type === 'group'
+			return `${atomic ? render(child) : `(?:${render(child)})`}${node.value}`
+		}
+		case 'union':
+			return node.children.map(child => child.type === 'or' ? `(?:${render(child)})` : render(child)).join('')
+		case 'or':
+			return node.children.map(render).join('|')
+		default:
+			return node.value
+	}
+}
+
+/**
+ * 运行一个用例，返回各运行方式的结果
+ * 构造或匹配时抛出错误的结果为错误信息
+ */
+const runCase = (pattern: string, flags: string, inputs: string[]) => {
+	return runners.map(runner => {
+		try {
+			const match = runner.create(pattern, flags)
+			return inputs.map(input => match(input) as boolean | string)
+		} catch (e) {
+			return inputs.map(() => `error: ${e.message}`)
+		}
+	})
+}
+
+const isFailure = (c: TCase) => {
+	const results = runCase(render(c.pattern), c.flags, [c.input]).map(result => result[0])
+	return results.some(result => result !== results[0])
+}
+
+// 语法树缩小一步的所有候选
+const shrinkNode = (node: TPatternNode): TPatternNode[] => {
+	const candidates: TPatternNode[] = []
+
+	// 用子节点替换自身
+	node.children.forEach(child => candidates.push(child))
+
+	// 删除一个子节点
+	if ((node.type === 'union' || node.type === 'or') && node.children.length > 1) {
+		node.children.forEach((_, i) => {
+			candidates.push({ ...node, children: node.children.filter((_, j) => j !== i) })
+		})
+	}
+
+	if (node.type === 'quantifier' && node.value !== '*') {
+		candidates.push({ ...node, value: '*' })
+	}
+
+	if (node.type === 'group' && node.value !== '?:') {
+		candidates.push({ ...node, value: '?:' })
+	}
+
+	if ((node.type === 'char' || node.type === 'set') && node.value !== 'a') {
+		candidates.push({ type: 'char', value: 'a', children: [] })
+	}
+
+	// 缩小某个子节点
+	node.children.forEach((child, i) => {
+		shrinkNode(child).forEach(smaller => {
+			const children = node.children.slice()
+			children[i] = smaller
+			candidates.push({ ...node, children })
+		})
+	})
+
+	return candidates
+}
+
+// 输入缩小一步的所有候选：删除一个字符，或者替换为a
+const shrinkInput = (input: string) => {
+	const chars = Array.from(input)
+	const candidates: string[] = []
+
+	chars.forEach((char, i) => {
+		candidates.push(chars.filter((_, j) => j !== i).join(''))
+		if (char !== 'a') {
+			candidates.push(chars.map((c, j) => j === i ? 'a' : c).join(''))
+		}
+	})
+
+	return candidates
+}
+
+// 贪心地缩小，每次取第一个仍然失败的候选，直到没有候选失败
+const shrink = (failure: TCase) => {
+	let current = failure
+	let changed = true
+
+	while (changed) {
+		changed = false
+
+		const candidates: TCase[] = shrinkNode(current.pattern)
+			.map(pattern => ({ ...current, pattern }))
+			.concat(current.flags ? [{ ...current, flags: '' }] : [])
+			.concat(shrinkInput(current.input).map(input => ({ ...current, input })))
+
+		for (let candidate of candidates) {
+			if (isFailure(candidate)) {
+				current = candidate
+				changed = true
+				break
+			}
+		}
+	}
+
+	return current
+}
+
+/**
+ * 运行模糊测试，返回最小的反例，全部一致时返回null
+ * 每个正则生成inputCount个输入
+ */
+export const fuzz = (seed: number, runs: number, inputCount = 8) => {
+	const random = createRandom(seed)
+	const generator = createGenerator(random)
+
+	for (let i = 0; i < runs; i++) {
+		const pattern = generator.pattern()
+		const flags = generator.flags()
+		const inputs: string[] = []
+		for (let j = 0; j < inputCount; j++) {
+			inputs.push(generator.input())
+		}
+
+		const results = runCase(render(pattern), flags, inputs)
+		const index = inputs.findIndex((_, j) => results.some(result => result[j] !== results[0][j]))
+
+		if (index !== -1) {
+			return shrink({ pattern, flags, input: inputs[index] })
+		}
+	}
+
+	return null
+}
+
+const main = () => {
+	const args = process.argv.slice(2)
+	const seed = parseInt(getOption(args, 'seed') || '1', 10)
+	const runs = parseInt(getOption(args, 'runs') || '300', 10)
+
+	const failure = fuzz(seed, runs)
+
+	if (failure === null) {
+		console.log(chalk.green(`seed ${seed}: ${runs} patterns passed (${runners.map(r => r.name).join(', ')})`))
+		return
+	}
+
+	const pattern = render(failure.pattern)
+	const results = runCase(pattern, failure.flags, [failure.input])
+
+	console.log(chalk.red(`seed ${seed}: mismatch`))
+	console.log(`pattern: /${pattern}/${failure.flags}`)
+	console.log(`input: ${JSON.stringify(failure.input)}`)
+	runners.forEach((runner, i) => {
+		console.log(`  ${runner.name}: ${results[i][0]}`)
+	})
+	process.exit(1)
+}
+
+if (require.main === module) {
+	main()
+}
@@ -0,0 +1,168 @@
+import { re2nfa, TNode, TCharKind, charKind, kindAt, epsilonClosure, hasAssert } from './re2nfa'
+import { closeSubset } from './re2dfa'
+import { has, codeAt, codeLength } from './charSet'
+
+/**
+ * 惰性构造的dfa
+ * re2dfa在匹配之前就要构造出所有的子集，状态数在最坏情况下是指数级的
+ * 这里只在输入需要时才创建子集和转移，没有走到的子集不会被构造
+ *
+ * 1. 子集用closeSubset的id作为key存在Map中，同一个子集只创建一次
+ * 2. 每个子集按码点缓存转移的结果，null表示死状态
+ * 3. 子集数达到cacheLimit后不再创建新的子集，
+ *    需要新子集时从当前子集的nfa状态集合开始改用Thompson模拟，已经缓存的部分照常使用
+ */
+
+export type TLazyState = {
+	id: string
+	// 按下一个字符的类型划分的nfa状态集合，下标为TCharKind
+	sets: TNode[][]
+	// 下一个字符为各类型时是否接受，下标为TCharKind
+	ends: boolean[]
+	// 码点 => 转移到的子集
+	next: Map<number, TLazyState | null>
+}
+
+export const createLazyDfa = (start: TNode, cacheLimit = 1000) => {
+	const withAssert = hasAssert(start)
+	const states = new Map<string, TLazyState>()
+	// 开始位置之前字符的类型 => 起始子集
+	const starts = new Map<TCharKind, TLazyState>()
+
+	/**
+	 * 查找或创建子集
+	 * force为false且缓存已满时返回undefined
+	 */
+	const getState = (nodes: TNode[], prevKind: TCharKind, force = false) => {
+		const subset = closeSubset(nodes, prevKind, withAssert)
+		const cached = states.get(subset.id)
+
+		if (cached) {
+			return cached
+		}
+
+		if (!force && states.size >= cacheLimit) {
+			return undefined
+		}
+
+		const state: TLazyState = {
+			id: subset.id,
+			sets: subset.sets,
+			ends: subset.ends,
+			next: new Map()
+		}
+		states.set(state.id, state)
+
+		return state
+	}
+
+	// 读入一个字符后直接到达的nfa节点
+	const stepNodes = (nodes: TNode[], code: number) => {
+		const targets: TNode[] = []
+
+		nodes.forEach(node => {
+			node.transitions.forEach(t => {
+				if (t.value !== 'epsilon' && has(t.value, code)) {
+					targets.push(t.next)
+				}
+			})
+		})
+
+		return targets
+	}
+
+	const getStart = (prevKind: TCharKind) => {
+		let state = starts.get(prevKind)
+
+		// 起始子集不受cacheLimit限制
+		if (!state) {
+			state = getState([start], prevKind, true) as TLazyState
+			starts.set(prevKind, state)
+		}
+
+		return state
+	}
+
+	/**
+	 * 子集上读入code的转移
+	 * 返回null表示死状态，undefined表示缓存已满、无法创建新的子集
+	 */
+	const move = (state: TLazyState, code: number) => {
+		const cached = state.next.get(code)
+
+		if (cached !== undefined) {
+			return cached
+		}
+
+		const kind = charKind(code)
+		const targets = stepNodes(state.sets[kind], code)
+		const next = targets.length === 0 ? null : getState(targets, kind)
+
+		if (next !== undefined) {
+			state.next.set(code, next)
+		}
+
+		return next
+	}
+
+	/**
+	 * 从position开始使用Thompson模拟，nodes为该位置上的nfa状态集合
+	 * 与createSimulator一致，但不缓存闭包
+	 */
+	const simulate = (nodes: TNode[], input: string, position: number) => {
+		let current = nodes
+
+		for (let i = position; i < input.length && current.length > 0;) {
+			const code = codeAt(input, i)
+			const targets = stepNodes(current, code)
+
+			i += codeLength(code)
+			current = epsilonClosure(targets, kindAt(input, i - 1), kindAt(input, i))
+		}
+
+		return current.some(node => node.type === 'end')
+	}
+
+	/**
+	 * 整个输入是否被接受
+	 */
+	const run = (input: string) => {
+		let state = getStart(0)
+
+		for (let i = 0; i < input.length;) {
+			const code = codeAt(input, i)
+			const next = move(state, code)
+
+			if (next === null) {
+				return false
+			}
+
+			if (next === undefined) {
+				return simulate(state.sets[charKind(code)], input, i)
+			}
+
+			state = next
+			i += codeLength(code)
+		}
+
+		return state.ends[0]
+	}
+
+	return {
+		run,
+		// 已经创建的子集数量
+		size: () => states.size
+	}
+}
+
+export type LazyDfa = ReturnType<typeof createLazyDfa>
+
+/**
+ * 状态机的运行
+ * 与re2dfa的run语义一致，但子集只在需要时构造
+ */
+const run = (regExp: string, input: string, flags = '', cacheLimit = 1000) => {
+	return createLazyDfa(re2nfa(regExp, flags), cacheLimit).run(input)
+}
+
+export default run
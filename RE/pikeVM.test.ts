@@ -0,0 +1,76 @@
+import * as assert from 'assert'
+import * as chalk from 'chalk'
+import { re2nfa } from './re2nfa'
+import { createPikeVM, getCaptureInfo } from './pikeVM'
+
+/**
+ * pikeVM的捕获组
+ * npx ts-node RE/pikeVM.test.ts
+ *
+ * 优先级与原生RegExp一致（leftmost-first），各组的位置与RegExp(pattern, 'du')的indices对比
+ */
+
+// 槽位转换为[start, end]，未参与匹配的组为null
+const toSpans = (slots: number[] | null) => {
+	if (slots === null) {
+		return null
+	}
+
+	const spans: ([number, number] | null)[] = []
+	for (let i = 0; i < slots.length; i += 2) {
+		spans.push(slots[i] === -1 || slots[i + 1] === -1 ? null : [slots[i], slots[i + 1]])
+	}
+	return spans
+}
+
+const nativeSpans = (pattern: string, input: string) => {
+	const match: any = new RegExp(pattern, 'du').exec(input)
+	return match && (match.indices as ([number, number] | undefined)[]).map(span => span ? [span[0], span[1]] : null)
+}
+
+// [正则, 输入]
+const cases: [string, string][] = [
+	['(a)(b)', 'xab'],
+	['(a+)(a*)', 'aaa'],
+	['(a+?)(a*)', 'aaa'],
+	['(a|ab)(c|bcd)', 'abcd'],
+	// 没有参与匹配的组为null
+	['(a)|(b)', 'b'],
+	['(a)?b', 'b'],
+	// 循环中的组取最后一次的位置
+	['(a|b)+', 'ab'],
+	['(\\w)*', 'abc'],
+	['(a){2}', 'aa'],
+	['((a)(b))+', 'abab'],
+	// 嵌套、具名、非捕获
+	['((a)(?:b)(c))', 'abc'],
+	['(?<year>[0-9]{4})-(?<month>[0-9]{2})', 'on 2024-05'],
+	['(😀)(.)', '😀😀'],
+	['\\b(\\w+)\\b', ' ab '],
+	['x(y)', 'abc']
+]
+
+cases.forEach(([pattern, input]) => {
+	const pikeVM = createPikeVM(re2nfa(pattern))
+	assert.deepStrictEqual(toSpans(pikeVM(input)), nativeSpans(pattern, input), `/${pattern}/ on ${JSON.stringify(input)}`)
+})
+
+// 具名组的下标
+const named = getCaptureInfo(re2nfa('(?<year>[0-9]{4})-(x)-(?<month>[0-9]{2})'))
+assert.deepStrictEqual(named, { count: 3, names: { year: 1, month: 3 } })
+
+/**
+ * 与原生RegExp不同：原生RegExp每次进入循环时清空循环内的组，这里保留最后一次参与匹配的位置
+ * (?:(a)|b)+匹配ab，原生的第1组为undefined
+ */
+assert.deepStrictEqual(toSpans(createPikeVM(re2nfa('(?:(a)|b)+'))('ab')), [[0, 2], [0, 1]])
+assert.deepStrictEqual(toSpans(createPikeVM(re2nfa('((a)|b)+'))('ab')), [[0, 2], [1, 2], [0, 1]])
+assert.deepStrictEqual(toSpans(createPikeVM(re2nfa('((a)(b)?)+'))('aba')), [[0, 3], [2, 3], [2, 3], [1, 2]])
+
+// anchored与endAt
+const pikeVM = createPikeVM(re2nfa('(a+)(b?)'))
+assert.strictEqual(pikeVM('xab', 0, true), null)
+assert.deepStrictEqual(toSpans(pikeVM('xaab', 1, true)), [[1, 4], [1, 3], [3, 4]])
+assert.deepStrictEqual(toSpans(pikeVM('xaab', 1, true, 2)), [[1, 2], [1, 2], [2, 2]])
+
+console.log(chalk.green(`${cases.length} capture cases passed`))
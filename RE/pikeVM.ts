@@ -0,0 +1,143 @@
+import { TNode, collectNodes, testAssert, kindAt } from './re2nfa'
+import { has, codeAt, codeLength } from './charSet'
+
+/**
+ * Pike VM
+ * 同时模拟nfa上的所有状态（线程），每个线程带着自己的捕获槽位
+ *
+ * 1. 线程列表按优先级排序，同一步中先到达某个节点的线程优先级更高，后到的直接丢弃
+ * 2. 某个线程到达end节点时记录匹配，并丢弃比它优先级低的线程，比它高的线程继续运行
+ * 3. 每一步最多有nfa节点数个线程，时间复杂度为O(n·m)，不会像回溯那样指数级增长
+ *
+ * 优先级与回溯执行一致（leftmost-first），贪婪/非贪婪由边的顺序决定
+ * 断言边按照线程所在位置前后的字符判断，endAt只限制匹配的结束位置，不影响$的判断
+ * 按码点前进，槽位中记录的位置都不会落在代理对的中间
+ * 槽位：0、1为整个匹配的开始和结束，2n、2n+1为第n个捕获组的开始和结束，-1表示未参与匹配
+ */
+
+export type TCaptureInfo = {
+	// 捕获组的数量，不含整个匹配
+	count: number
+	names: Record<string, number>
+}
+
+type TThread = {
+	node: TNode
+	slots: number[]
+}
+
+// 从nfa的save边上获取捕获组信息
+export const getCaptureInfo = (start: TNode): TCaptureInfo => {
+	const info: TCaptureInfo = {
+		count: 0,
+		names: {}
+	}
+
+	collectNodes(start).forEach(node => {
+		node.transitions.forEach(t => {
+			if (t.save !== undefined) {
+				info.count = Math.max(info.count, t.save >> 1)
+			}
+
+			if (t.name !== undefined && t.save !== undefined) {
+				info.names[t.name] = t.save >> 1
+			}
+		})
+	})
+
+	return info
+}
+
+export const createPikeVM = (start: TNode) => {
+	const slotCount = (getCaptureInfo(start).count + 1) * 2
+
+	/**
+	 * 从position开始匹配，返回槽位，没有匹配时返回null
+	 * anchored为true时匹配必须从position开始
+	 * endAt不为-1时，匹配必须恰好在endAt结束，用于在已知的匹配范围内提取捕获组
+	 */
+	return (input: string, position = 0, anchored = false, endAt = -1) => {
+		const last = endAt === -1 ? input.length : endAt
+
+		/**
+		 * 沿着epsilon边按优先级深度优先地加入线程
+		 * 经过save边时复制一份槽位再写入，避免影响其他线程
+		 */
+		const addThread = (list: TThread[], visited: Set<TNode>, node: TNode, slots: number[], index: number) => {
+			if (visited.has(node)) {
+				return
+			}
+			visited.add(node)
+
+			if (node.type === 'end' || node.transitions.some(t => t.value !== 'epsilon')) {
+				list.push({ node, slots })
+			}
+
+			node.transitions.forEach(t => {
+				if (t.value !== 'epsilon') return
+				if (t.assert && !testAssert(t.assert, kindAt(input, index - 1), kindAt(input, index))) return
+
+				if (t.save !== undefined) {
+					const nextSlots = slots.slice()
+					nextSlots[t.save] = index
+					addThread(list, visited, t.next, nextSlots, index)
+				} else {
+					addThread(list, visited, t.next, slots, index)
+				}
+			})
+		}
+
+		let list: TThread[] = []
+		let visited = new Set<TNode>()
+		let matched: number[] | null = null
+
+		for (let i = position; i <= last;) {
+			// 还没有匹配时，在当前位置开启新的线程，优先级最低
+			if (matched === null && (i === position || !anchored)) {
+				const slots: number[] = []
+				for (let s = 0; s < slotCount; s++) {
+					slots.push(-1)
+				}
+				slots[0] = i
+				addThread(list, visited, start, slots, i)
+			}
+
+			const nextList: TThread[] = []
+			const nextVisited = new Set<TNode>()
+			const code = i < last ? codeAt(input, i) : -1
+			const nextIndex = i + (code === -1 ? 1 : codeLength(code))
+
+			for (let thread of list) {
+				if (thread.node.type === 'end') {
+					if (endAt === -1 || i === endAt) {
+						matched = thread.slots.slice()
+						matched[1] = i
+						break
+					}
+					continue
+				}
+
+				if (code === -1) continue
+
+				thread.node.transitions.forEach(t => {
+					if (t.value !== 'epsilon' && has(t.value, code)) {
+						addThread(nextList, nextVisited, t.next, thread.slots, nextIndex)
+					}
+				})
+			}
+
+			list = nextList
+			visited = nextVisited
+
+			if (list.length === 0 && (matched !== null || anchored)) {
+				break
+			}
+
+			i = nextIndex
+		}
+
+		return matched
+	}
+}
+
+export default createPikeVM
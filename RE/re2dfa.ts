@@ -1,124 +1,164 @@
-import { re2nfa, TNode } from './re2nfa'
+import { re2nfa, TNode, TCharKind, charKind, epsilonClosure, hasAssert } from './re2nfa'
+import { CharSet, CharRange, splitRanges, normalize, has, wordSet, codeAt, codeLength } from './charSet'
 /**
  * 将nfa转化为dfa，避免在执行过程中产生回溯
  * 算法：子集构造法
  * 注意：子集q是集合的概念，是无序的，判断q1，q2是否相同也是集合的概念
  * 子集构造法的算法思想是，针对一个输入，枚举所有可能状态，针对该输入的所有状态我们称为集合q，只要集合q内存在接受状态，那么集合q就是接收状态
+ * 边上的标签是字符集合，先将集合q内所有的标签切分为互不相交的区间，再对每个区间做转移，转移到相同子集的区间合并为一条边
+ * 合并的nfa中end节点带有tag，子集的tag取其中最小的一个，用来表示优先级
+ *
+ * 断言：epsilon闭包取决于前后字符的类型（见re2nfa的TCharKind）
+ * 1. 消耗一个字符后，前一个字符的类型就确定了，但下一个字符还未知
+ * 2. 所以每个子集q按照下一个字符的类型（边界、单词字符、其他字符）分别保存三个闭包
+ * 3. 读入字符c时使用c的类型对应的闭包转移，输入结束时使用边界对应的闭包判断是否接受
+ * 不含断言时三个闭包相同，只计算一次
  */
 
-type TQNode = {
-    set: Set<TNode>,
+export type TQNode = {
+    // 按下一个字符的类型划分的nfa状态集合，下标为TCharKind
+    sets: TNode[][],
+    // 输入在此结束时是否接受，以及匹配到的规则
     end: boolean,
-    validInput: Set<string>,
+    tag?: number,
+    // 下一个字符为各类型时是否接受，以及匹配到的规则，下标为TCharKind
+    ends: boolean[],
+    tags: (number | undefined)[],
+    validInput: CharRange[],
     id: string,
     transitions: {
-        value: string,
+        value: CharSet,
         next: TQNode
     }[]
 }
 
-const re2dfa = (regExp: string) => {
-    // 转化为dfa
-    const start = re2nfa(regExp)
+const kinds: TCharKind[] = [0, 1, 2]
 
-    // 获取某个状态的epsilon子集
-    const epsilonClosure = (node: TNode) => {
-        const clousreSet = new Set<TNode>()
-
-        const dfs = (node: TNode) => {
-            clousreSet.add(node)
+/**
+ * 子集的闭包，nodes为消耗字符后直接到达的nfa节点
+ * 返回按下一个字符类型划分的nfa状态集合、是否接受、匹配到的规则，以及子集的id
+ * 相同的id代表相同的子集，与nodes的顺序无关
+ */
+export const closeSubset = (nodes: TNode[], prevKind: TCharKind, withAssert: boolean) => {
+    const shared = withAssert ? null : epsilonClosure(nodes, prevKind, 0)
+    const sets = kinds.map(kind => shared || epsilonClosure(nodes, prevKind, kind))
 
-            node.transitions.forEach(t => {
-                if (t.value === 'epsilon' && !clousreSet.has(t.next)) {
-                    dfs(t.next)
-                }
-            })
-        }
+    const ends = sets.map(set => set.some(node => node.type === 'end'))
+    const tags = sets.map(set => {
+        let tag: number | undefined
+        set.forEach(node => {
+            if (node.type === 'end' && node.tag !== undefined && (tag === undefined || node.tag < tag)) {
+                tag = node.tag
+            }
+        })
+        return tag
+    })
 
-        dfs(node)
+    // 需要分隔符，否则{1, 23}和{12, 3}会得到相同的id
+    const ids = sets.map(set => set.map(node => node.id).sort((a, b) => a - b).join(','))
 
-        return clousreSet
+    return {
+        sets,
+        ends,
+        tags,
+        id: withAssert ? ids.join('|') : ids[0]
     }
+}
 
-    // 创建子集节点
-    const buildQNode = (set: Set<TNode>): TQNode => {
-        const validInput = new Set<string>()
-        let end = false
-        
-        set.forEach(node => {
-            if (node.type === 'end') {
-                end = true
-            }
-            node.transitions.forEach(transition => {
-                if (transition.value !== 'epsilon') {
-                    validInput.add(transition.value)
-                }
+/**
+ * prevKind为开始位置之前字符的类型，默认为输入的开头
+ */
+export const nfa2dfa = (start: TNode, prevKind: TCharKind = 0) => {
+    const withAssert = hasAssert(start)
+
+    // 创建子集节点，nodes为消耗字符后直接到达的nfa节点
+    const buildQNode = (nodes: TNode[], prevKind: TCharKind): TQNode => {
+        const subset = closeSubset(nodes, prevKind, withAssert)
+        const labels: CharSet[] = withAssert ? [wordSet] : []
+
+        subset.sets.forEach(set => {
+            set.forEach(node => {
+                node.transitions.forEach(transition => {
+                    if (transition.value !== 'epsilon') {
+                        labels.push(transition.value)
+                    }
+                })
             })
         })
 
         return {
-            set,
+            ...subset,
             transitions: [],
-            validInput,
-            end,
-            id: Array.from(set).map(node => node.id).sort().join('')
+            validInput: splitRanges(labels),
+            end: subset.ends[0],
+            tag: subset.tags[0]
         }
     }
 
-    // 从一个子集转化到另一个子集
-    const transit = (q: TQNode, c: string): TQNode | null => {
-        const nodeSet = new Set<TNode>()
-        q.set.forEach(node => {
+    // 从一个子集转化到另一个子集，c为区间内的代表字符
+    const transit = (q: TQNode, c: number): TQNode | null => {
+        const kind = charKind(c)
+        const nodes: TNode[] = []
+
+        q.sets[kind].forEach(node => {
             node.transitions.forEach(transition => {
-                if (transition.value === c) {
-                    nodeSet.add(transition.next)
+                if (transition.value !== 'epsilon' && has(transition.value, c)) {
+                    nodes.push(transition.next)
                 }
             })
         })
 
-        if (nodeSet.size > 0) {
-            const epsilonSet = new Set<TNode>()
-            nodeSet.forEach(node => {
-                epsilonClosure(node).forEach(n => {
-                    epsilonSet.add(n)
-                })
-            })
-            return buildQNode(epsilonSet)
+        if (nodes.length > 0) {
+            return buildQNode(nodes, kind)
         }
 
         return null
     }
 
-    const setTransit = (prevNode: TQNode, nextNode: TQNode, value: string) => {
+    const setTransit = (prevNode: TQNode, nextNode: TQNode, value: CharSet) => {
         prevNode.transitions.push({
             value,
             next: nextNode
         })
     }
 
-    // 创建nfa
+    // 创建dfa
     const build = () => {
-        const startQ: TQNode = buildQNode(epsilonClosure(start))
-        const queue = [startQ]
+        const startQ: TQNode = buildQNode([start], prevKind)
+        // 已经创建的子集，按id查找
+        const queue = new Map<string, TQNode>([[startQ.id, startQ]])
         const workList = [startQ]
 
         while (workList.length > 0) {
             const q = workList.shift() as TQNode
-            q.validInput.forEach(c => {
-                const nextQ = transit(q, c)
+            // 转移到同一个子集的区间
+            const targets = new Map<string, { next: TQNode, ranges: CharRange[] }>()
+
+            q.validInput.forEach(range => {
+                const nextQ = transit(q, range[0])
 
                 if (nextQ === null) return
 
-                const sameQ = queue.find(q => q.id === nextQ.id)
+                const target = targets.get(nextQ.id)
+                if (target) {
+                    target.ranges.push(range)
+                    return
+                }
+
+                const sameQ = queue.get(nextQ.id)
 
                 if (sameQ) {
-                    setTransit(q, sameQ, c)
+                    targets.set(nextQ.id, { next: sameQ, ranges: [range] })
                 } else {
-                    queue.push(nextQ)
+                    queue.set(nextQ.id, nextQ)
                     workList.push(nextQ)
-                    setTransit(q, nextQ, c)
+                    targets.set(nextQ.id, { next: nextQ, ranges: [range] })
                 }
             })
+
+            targets.forEach(target => {
+                setTransit(q, target.next, normalize(target.ranges))
+            })
         }
 
         return startQ
@@ -127,54 +167,59 @@ const re2dfa = (regExp: string) => {
     return build()
 }
 
-const run = (regExp: string, input: string) => {
-    let current: TQNode | null = re2dfa(regExp)
-    let index = 0
-    let char: string | null
+export const re2dfa = (regExp: string, flags = '') => {
+    return nfa2dfa(re2nfa(regExp, flags))
+}
 
-    const transit = (node: TQNode, char: string) => {
-        for (let transition of node.transitions) {
-            if (transition.value === char) {
-                return transition.next
-            }
+/**
+ * 按照前一个字符的类型获取起始状态，用于从输入的中间开始匹配
+ * 不含断言时起始状态都相同，只构建一次
+ */
+export const createDfaStarts = (start: TNode) => {
+    const withAssert = hasAssert(start)
+    const starts: TQNode[] = []
+
+    return (prevKind: TCharKind) => {
+        const kind = withAssert ? prevKind : 0
+
+        if (!starts[kind]) {
+            starts[kind] = nfa2dfa(start, kind)
         }
 
-        return null
+        return starts[kind]
     }
+}
 
-    const readChar = () => {
-        let char = input[index]
-		
-		// 不含转义情况
-		if (char && char !== '\\') {
-				index++
-		}
-		
-		// 转义情况
-		if (char === '\\') {
-			const nextChar = input[index]
-			if (nextChar) {
-				index = index + 2
-				char = char + nextChar
-			} else {
-				throw new Error('\\不能单独使用')
-			}
-		}
-
-		return char || null
-	}
-
-    while (char = readChar()) {
-        let next = transit(current, char)
-
-        if (next) {
-            current = next
-        } else {
-            break
+// dfa上的一步转移，没有对应的边时返回null
+export const move = (node: TQNode, code: number) => {
+    for (let transition of node.transitions) {
+        if (has(transition.value, code)) {
+            return transition.next
         }
     }
 
-    return current.end
+    return null
+}
+
+/**
+ * 状态机的运行
+ * 整个输入被读完且停在接受状态才算匹配，中途没有可走的边直接失败
+ * startQ为构造好的dfa，多次匹配时只需要构造一次
+ */
+export const run = (startQ: TQNode, input: string) => {
+    let current: TQNode | null = startQ
+
+    // 按码点读取
+    for (let i = 0; i < input.length && current !== null;) {
+        const code = codeAt(input, i)
+        current = move(current, code)
+        i += codeLength(code)
+    }
+
+    return current !== null && current.end
 }
 
-export default run
\ No newline at end of file
+// 由正则构造dfa后整串匹配
+const runRegExp = (regExp: string, input: string, flags = '') => run(re2dfa(regExp, flags), input)
+
+export default runRegExp
@@ -1,13 +1,22 @@
 import reRes from "./reRes";
+import { CharSet, fromChar, has, wordSet, codeAt, codeLength } from './charSet'
+
 /**
  * RE 转化为 NFA
  * 转化为不确定有限自动机的有向图
  * 
  * 算法thompson算法
  * 1. 基础状态：c, epsilon
- * 2. 符合状态：union（ab），or（a|b），multi（a*）
+ * 2. 符合状态：union（ab），or（a|b），multi（a*），plus（a+），optional（a?）
+ * 3. repeat（a{m,n}）展开为m个a加上嵌套的(a(a)?)?，没有上限时展开为m个a加上a*
+ * 
+ * 同一节点上边的顺序代表优先级，回溯执行时先尝试前面的边
+ * 贪婪量词优先进入循环，非贪婪量词优先离开
+ * 
+ * 捕获组在子表达式两端各加一条带save的epsilon边，只有pikeVM会用到，其他运行方式当作普通epsilon
+ * 断言（^ $ \b \B）为带assert的epsilon边，只有当前位置前后的字符满足断言时才能通过
  * 
- * transitions为边
+ * transitions为边，边上的标签为epsilon或者字符集合
  * node为状态点
  */
 
@@ -15,40 +24,160 @@ export type TNode = {
 	id: number
 	type: 'normal' | 'start' | 'end'
 	transitions: TTransition[]
+	// 多个nfa合并时，用来标记end节点属于哪一个
+	tag?: number
 }
 
 export type TTransition = {
-	value: string
+	value: 'epsilon' | CharSet
 	next: TNode
+	// 捕获组边界的epsilon边，经过时把位置记录到第save个槽位，2n为第n组的开始，2n+1为结束
+	save?: number
+	// 具名捕获组的名称，只记录在开始的边上
+	name?: string
+	// 断言，只在epsilon边上
+	assert?: TAssert
 }
 
-export const re2nfa = (input: string) => {
-	const reTree = reRes(input)
+export type TAssert = '^' | '$' | 'b' | 'B'
 
-	// 节点id，随着节点的创建自增
-	let id = 0
+/**
+ * 字符的类型，断言只关心当前位置前后字符的类型
+ * 0: 输入的边界（开头之前、结尾之后），1: 单词字符，2: 其他字符
+ */
+export type TCharKind = 0 | 1 | 2
 
-	const createNode = (type: TNode['type']): TNode => {
-		return {
-			id: id++,
-			type,
-			transitions: []
-		}
+// code为-1表示输入的边界
+export const charKind = (code: number): TCharKind => {
+	if (code === -1) {
+		return 0
 	}
+	return has(wordSet, code) ? 1 : 2
+}
 
-	const createTransition = (value: string, next: TNode): TTransition => {
-		return {
-			value,
-			next
+// 输入中第index个字符的类型，越界即为边界
+// 代理项不是单词字符，所以index落在代理对的任意一半上结果都一样
+export const kindAt = (input: string, index: number) => {
+	return index < 0 || index >= input.length ? 0 : charKind(input.charCodeAt(index))
+}
+
+export const testAssert = (assert: TAssert, prevKind: TCharKind, nextKind: TCharKind) => {
+	switch (assert) {
+		case '^':
+			return prevKind === 0
+		case '$':
+			return nextKind === 0
+		case 'b':
+			return (prevKind === 1) !== (nextKind === 1)
+		case 'B':
+			return (prevKind === 1) === (nextKind === 1)
+	}
+}
+
+// 节点id，随着节点的创建自增，多个nfa之间也不会重复
+let id = 0
+
+export const createNode = (type: TNode['type']): TNode => {
+	return {
+		id: id++,
+		type,
+		transitions: []
+	}
+}
+
+type TTransitionExtra = Pick<TTransition, 'save' | 'name' | 'assert'>
+
+const createTransition = (value: TTransition['value'], next: TNode, extra: TTransitionExtra = {}): TTransition => {
+	return {
+		...extra,
+		value,
+		next
+	}
+}
+
+/**
+ * 连接两个节点的边
+ * value只可能是一个字符集合，或者epsilon
+ * extra只用于epsilon边，save、name用于捕获组，assert用于断言
+ */
+export const link = (prevNode: TNode, nextNode: TNode, value: TTransition['value'], extra?: TTransitionExtra) => {
+	prevNode.transitions.push(createTransition(value, nextNode, extra))
+}
+
+// 广度优先收集从start可达的所有节点
+export const collectNodes = (start: TNode) => {
+	const nodes = [start]
+	const visited = new Set<TNode>(nodes)
+
+	for (let i = 0; i < nodes.length; i++) {
+		nodes[i].transitions.forEach(t => {
+			if (!visited.has(t.next)) {
+				visited.add(t.next)
+				nodes.push(t.next)
+			}
+		})
+	}
+
+	return nodes
+}
+
+// nfa中是否含有断言
+export const hasAssert = (start: TNode) => {
+	return collectNodes(start).some(node => node.transitions.some(t => t.assert !== undefined))
+}
+
+/**
+ * 求一组节点的epsilon闭包，只保留有字符边的节点和end节点
+ * prevKind、nextKind为当前位置前后字符的类型，带断言的边只有满足时才能通过
+ */
+export const epsilonClosure = (nodes: TNode[], prevKind: TCharKind, nextKind: TCharKind) => {
+	const result: TNode[] = []
+	const visited = new Set<TNode>()
+	const stack = nodes.slice()
+
+	while (stack.length > 0) {
+		const node = stack.pop() as TNode
+
+		if (visited.has(node)) continue
+		visited.add(node)
+
+		if (node.type === 'end' || node.transitions.some(t => t.value !== 'epsilon')) {
+			result.push(node)
 		}
+
+		node.transitions.forEach(t => {
+			if (t.value !== 'epsilon' || visited.has(t.next)) return
+			if (t.assert && !testAssert(t.assert, prevKind, nextKind)) return
+			stack.push(t.next)
+		})
 	}
 
+	return result
+}
+
+export const re2nfa = (input: string, flags = '') => {
+	const reTree = reRes(input, flags)
+
 	/**
-	 * 连接两个节点的边
-	 * value只可能是一个char，或者epsilon
+	 * 按贪婪或非贪婪的顺序连接两条epsilon边
+	 * enterNode为继续匹配的节点，leaveNode为跳过的节点
 	 */
-	const link = (prevNode: TNode, nextNode: TNode, value: string) => {
-		prevNode.transitions.push(createTransition(value, nextNode))
+	const linkQuantifier = (prevNode: TNode, enterNode: TNode, leaveNode: TNode, lazy: boolean) => {
+		if (lazy) {
+			link(prevNode, leaveNode, 'epsilon')
+			link(prevNode, enterNode, 'epsilon')
+		} else {
+			link(prevNode, enterNode, 'epsilon')
+			link(prevNode, leaveNode, 'epsilon')
+		}
+	}
+
+	// 创建子表达式，并作为中间节点
+	const buildInner = (node: any) => {
+		const [s, e] = build(node) as [TNode, TNode]
+		s.type = 'normal'
+		e.type = 'normal'
+		return [s, e]
 	}
 
 	// 深度遍历reTree
@@ -56,6 +185,10 @@ export const re2nfa = (input: string) => {
 		switch (node.type) {
 			case 'char':
 				return buildChar(node)
+			case 'set':
+				return buildSet(node)
+			case 'assert':
+				return buildAssert(node)
 			case 'union':
 				return buildUnion(node)
 			case 'group':
@@ -64,12 +197,33 @@ export const re2nfa = (input: string) => {
 				return buildOr(node)
 			case 'multi':
 				return buildMulti(node)
+			case 'plus':
+				return buildPlus(node)
+			case 'optional':
+				return buildOptional(node)
+			case 'repeat':
+				return buildRepeat(node)
 			default:
 				throw new Error(`unknown type: ${node.type}`)
 		}
 	}
 
 	const buildChar = (node: any) => {
+		const start = createNode('start')
+		const end = createNode('end')
+		link(start, end, fromChar(node.child))
+		return [start, end]
+	}
+
+	const buildAssert = (node: any) => {
+		const start = createNode('start')
+		const end = createNode('end')
+		link(start, end, 'epsilon', { assert: node.child })
+		return [start, end]
+	}
+
+	// 字符类只需要一条边
+	const buildSet = (node: any) => {
 		const start = createNode('start')
 		const end = createNode('end')
 		link(start, end, node.child)
@@ -118,57 +272,168 @@ export const re2nfa = (input: string) => {
 	const buildMulti = (node: any) => {
 		const start = createNode('start')
 		const end = createNode('end')
-		const [s, e] = build(node.child)
-		s.type = 'normal'
-		e.type = 'normal'
+		const [s, e] = buildInner(node.child)
+
+		linkQuantifier(start, s, end, node.lazy)
+		linkQuantifier(e, s, end, node.lazy)
+
+		return [start, end]
+	}
+
+	const buildPlus = (node: any) => {
+		const start = createNode('start')
+		const end = createNode('end')
+		const [s, e] = buildInner(node.child)
 
-		link(e, s, 'epsilon')
 		link(start, s, 'epsilon')
+		linkQuantifier(e, s, end, node.lazy)
+
+		return [start, end]
+	}
+
+	const buildOptional = (node: any) => {
+		const start = createNode('start')
+		const end = createNode('end')
+		const [s, e] = buildInner(node.child)
+
+		linkQuantifier(start, s, end, node.lazy)
 		link(e, end, 'epsilon')
 
 		return [start, end]
 	}
 
+	// 每次展开都需要重新创建子表达式的节点
+	const buildRepeat = (node: any) => {
+		const start = createNode('start')
+		const end = createNode('end')
+		let current = start
+
+		for (let i = 0; i < node.min; i++) {
+			const [s, e] = buildInner(node.child)
+			link(current, s, 'epsilon')
+			current = e
+		}
+
+		if (node.max === Infinity) {
+			const [s, e] = buildInner({ type: 'multi', child: node.child, lazy: node.lazy })
+			link(current, s, 'epsilon')
+			current = e
+		} else if (node.max > node.min) {
+			const [s, e] = buildInner(buildOptionalChain(node, node.max - node.min))
+			link(current, s, 'epsilon')
+			current = e
+		}
+
+		link(current, end, 'epsilon')
+
+		return [start, end]
+	}
+
+	// a{0,n}展开为嵌套的(a(a(a)?)?)?
+	const buildOptionalChain = (node: any, count: number): any => {
+		return {
+			type: 'optional',
+			lazy: node.lazy,
+			child: count > 1
+				? { type: 'union', children: [node.child, buildOptionalChain(node, count - 1)] }
+				: node.child
+		}
+	}
+
 	const buildGroup = (node: any) => {
-		return build(node.child)
+		// 非捕获组
+		if (node.index === undefined) {
+			return build(node.child)
+		}
+
+		const start = createNode('start')
+		const end = createNode('end')
+		const [s, e] = buildInner(node.child)
+
+		link(start, s, 'epsilon', { save: node.index * 2, name: node.name })
+		link(e, end, 'epsilon', { save: node.index * 2 + 1 })
+
+		return [start, end]
 	}
 
 	return build(reTree)[0]
 }
 
 /**
- * 状态机的运行
+ * Thompson模拟
+ * 同时维护nfa当前所有可能的状态，每读一个字符整体转移一次，不需要回溯
+ * 1. 状态集合中只保留有字符边的节点和end节点
+ * 2. epsilon闭包中每个节点只访问一次，每个字符的代价为O(m)，整体为O(n·m)
+ * 3. 同一组目标节点（以及前后字符类型）的闭包会被缓存，状态集合重复出现时直接复用，缓存超过cacheLimit时清空
  */
-const run = (regex: string, input: string) => {
-	const start = re2nfa(regex)
+export const createSimulator = (start: TNode, cacheLimit = 1000) => {
+	const closureCache = new Map<string, TNode[]>()
+
+	const closure = (targets: TNode[], prevKind: TCharKind, nextKind: TCharKind) => {
+		const key = targets.map(node => node.id).sort((a, b) => a - b).join(',') + `|${prevKind}${nextKind}`
+		const cached = closureCache.get(key)
+
+		if (cached) {
+			return cached
+		}
+
+		const result = epsilonClosure(targets, prevKind, nextKind)
+
+		if (closureCache.size >= cacheLimit) {
+			closureCache.clear()
+		}
+		closureCache.set(key, result)
+
+		return result
+	}
+
+	return (input: string) => {
+		let current = closure([start], 0, kindAt(input, 0))
+
+		for (let i = 0; i < input.length && current.length > 0;) {
+			const code = codeAt(input, i)
+			const targets: TNode[] = []
+
+			current.forEach(node => {
+				node.transitions.forEach(t => {
+					if (t.value !== 'epsilon' && has(t.value, code)) {
+						targets.push(t.next)
+					}
+				})
+			})
+
+			i += codeLength(code)
+			current = closure(targets, kindAt(input, i - 1), kindAt(input, i))
+		}
+
+		return current.some(node => node.type === 'end')
+	}
+}
+
+/**
+ * 回溯执行
+ * 按边的顺序深度优先地尝试，最坏情况下是指数级的，只在需要按优先级逐条路径尝试时使用
+ * 同一位置上沿着epsilon边绕回已经经过的节点时直接停止，避免(a*)*这类epsilon环导致死循环
+ */
+export const backtrack = (start: TNode, input: string) => {
 	let index = 0
 	let inTheEnd = false
+	// 当前路径上，在同一位置经过的节点
+	const epsilonPath = new Set<TNode>()
 	
 	const readChar = () => {
-		let char = input[index]
-		
-		// 不含转义情况
-		if (char && char !== '\\') {
-				index++
-		}
-		
-		// 转义情况
-		if (char === '\\') {
-			const nextChar = input[index]
-			if (nextChar) {
-				index = index + 2
-				char = char + nextChar
-			} else {
-				throw new Error('\\不能单独使用')
-			}
+		const code = codeAt(input, index)
+
+		if (code !== -1) {
+			index += codeLength(code)
 		}
 
-		return char || null
+		return code
 	}
 
 	const transit = (node: TNode) => {
 		if (node.type === 'end') {
-			inTheEnd = true
+			inTheEnd = index === input.length
 			return
 		}
 
@@ -177,15 +442,25 @@ const run = (regex: string, input: string) => {
 		node.transitions.forEach(t => {
 			if (inTheEnd) return
 
+			index = currentIndex
+
 			if (t.value === 'epsilon') {
+				if (epsilonPath.has(t.next)) return
+				if (t.assert && !testAssert(t.assert, kindAt(input, index - 1), kindAt(input, index))) return
+
+				epsilonPath.add(t.next)
 				transit(t.next)
+				epsilonPath.delete(t.next)
 				return
 			}
 
-			index = currentIndex
-			const char = readChar()
-			if (char && t.value === char) {
+			const code = readChar()
+			if (code !== -1 && has(t.value, code)) {
+				// 消耗了字符，进入新的位置
+				const path = Array.from(epsilonPath)
+				epsilonPath.clear()
 				transit(t.next)
+				path.forEach(n => epsilonPath.add(n))
 			} else {
 				index = currentIndex
 			}
@@ -196,4 +471,22 @@ const run = (regex: string, input: string) => {
 	return inTheEnd
 }
 
+export type TRunMode = 'thompson' | 'backtrack'
+
+/**
+ * 状态机的运行
+ * 输入全部被消耗且到达终点才算匹配
+ * 默认使用Thompson模拟，mode为backtrack时使用回溯执行
+ * flags为i时忽略大小写
+ */
+const run = (regex: string, input: string, mode: TRunMode = 'thompson', flags = '') => {
+	const start = re2nfa(regex, flags)
+
+	if (mode === 'backtrack') {
+		return backtrack(start, input)
+	}
+
+	return createSimulator(start)(input)
+}
+
 export default run
\ No newline at end of file
@@ -0,0 +1,30 @@
+import * as assert from 'assert'
+import * as chalk from 'chalk'
+import reRes from './reRes'
+import { RegexSyntaxError } from './errors'
+
+/**
+ * 正则语法错误的位置
+ * npx ts-node RE/reRes.test.ts
+ */
+
+// [正则, 出错的位置, 错误信息]
+const cases: [string, number, RegExp][] = [
+	// 范围不合法时指向{，而不是模式串的结尾
+	['a{2,1}', 1, /invalid quantifier range/],
+	['(a){12,3}b', 3, /invalid quantifier range/],
+	['a{2', 3, /invalid quantifier/],
+	['[b-a]', 1, /invalid range/]
+]
+
+cases.forEach(([pattern, offset, message]) => {
+	assert.throws(() => reRes(pattern), (e: any) => {
+		assert.ok(e instanceof RegexSyntaxError, `/${pattern}/ is not a RegexSyntaxError`)
+		assert.match(e.message, message)
+		assert.strictEqual(e.offset, offset, `/${pattern}/ offset`)
+		assert.strictEqual(e.snippet, `${pattern}\n${' '.repeat(offset)}^`)
+		return true
+	})
+})
+
+console.log(chalk.green(`${cases.length} syntax error cases passed`))
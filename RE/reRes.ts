@@ -1,33 +1,96 @@
+import { RegexSyntaxError, isFatal } from './errors'
+import { CharSet, MAX_CHAR, digitSet, wordSet, spaceSet, dotSet, negate, union, fromRange, caseFold, codeAt, codeLength } from './charSet'
+
 /**
  * 正则表达式的的解析工具
  * regex -> 特定数据结构
  * 支持的正则运算按优先级顺序，使用文法解析可能不是效率最高的一种
  * or = union {[ '|' union ]}
- * union = { multi }
- * multi = (char | group) ['*']
- * group = '(' [or] ')'
+ * union = { assert | multi }
+ * assert = '^' | '$' | '\b' | '\B'
+ * multi = (char | dot | charClass | group) [quantifier]
+ * quantifier = ('*' | '+' | '?' | '{' number [',' [number]] '}') ['?']
+ * group = '(' ['?:' | '?<' name '>'] [or] ')'
+ * charClass = '[' ['^'] {[ classAtom ['-' classAtom] ]} ']'
+ * 
+ * 字符类、.以及\d、\w、\s等简写统一解析为set节点，child为字符集合
+ * 量词解析为multi(*)、plus(+)、optional(?)、repeat({m,n})节点，量词后跟?表示非贪婪
+ * 捕获组按照左括号出现的顺序从1开始编号记在index上，(?:)为非捕获组没有index，(?<name>)为具名捕获组
+ * ^、$、\b、\B解析为assert节点，是不消耗字符的断言，不能跟量词；字符类中的\b表示退格符
+ * 按码点读取模式串，\u{1f600}、\uXXXX表示任意码点，\uXXXX\uXXXX形式的代理对合并为一个码点
+ * 
+ * flags中的i表示忽略大小写，char节点会转化为包含所有大小写形式的set节点
+ * 
+ * 出错时抛出RegexSyntaxError
+ * 1. 普通的读取失败可以回溯，最终报错的位置为最远的失败位置，并给出该位置上期望的内容
+ * 2. 带有原因的错误（fatal）无法回溯，直接抛出
  */
 
-const keyWords = ['|', '(', ')', '*']
+const keyWords = ['|', '(', ')', '*', '+', '?', '{', '[', '.', '^', '$']
+
+// 转义后表示特殊字符
+const escapeChars: Record<string, string> = {
+	n: '\n',
+	r: '\r',
+	t: '\t',
+	f: '\f',
+	v: '\v',
+	'0': '\0'
+}
+
+// 简写的字符集合
+const shorthandSets: Record<string, CharSet> = {
+	d: digitSet,
+	D: negate(digitSet),
+	w: wordSet,
+	W: negate(wordSet),
+	s: spaceSet,
+	S: negate(spaceSet)
+}
 
-const reRes = (input: string) => {
+const reRes = (input: string, flags = '') => {
+	if (!/^i?$/.test(flags)) {
+		throw new Error(`invalid regular expression flags '${flags}'`)
+	}
+
+	const ignoreCase = flags === 'i'
 	let index = 0
+	// 最远的读取失败位置，以及在这个位置上期望的内容
 	let longestIndex = 0
+	let expected: string[] = []
+	// 捕获组的数量和名称
+	let groupCount = 0
+	const groupNames: string[] = []
 
-	const castError = (msg = '') => {
-		const newMsg = msg !== '' ? `parsing error in ${index}: ${msg}` : `parsing error: position ${longestIndex}`
-		const error = new Error(newMsg)
-
+	const castError = (msg = '', position = index): never => {
 		if (msg) {
-			error.name = 'dead'
+			throw new RegexSyntaxError(input, position, msg, [], true)
+		}
+
+		throw new RegexSyntaxError(input, longestIndex, '', expected.slice())
+	}
+
+	// 记录读取失败的位置
+	const expect = (position: number, what: string) => {
+		if (position > longestIndex) {
+			longestIndex = position
+			expected = []
 		}
 
-		throw error
+		if (position === longestIndex && !expected.includes(what)) {
+			expected.push(what)
+		}
 	}
 
+	// 向后第step个字符（码点）
   const peek = (step = 0) => {
-    const char = input[index + step]
-    return char || null
+		let position = index
+		for (let i = 0; i < step && position < input.length; i++) {
+			position += codeLength(codeAt(input, position))
+		}
+
+		const code = codeAt(input, position)
+    return code === -1 ? null : String.fromCodePoint(code)
   }
 
   const read = () => {
@@ -35,28 +98,25 @@ const reRes = (input: string) => {
 		
 		// 不含转义情况
     if (char && char !== '\\') {
-			index++
+			index += char.length
     }
 		
 		// 转义情况
 		if (char === '\\') {
 			const nextChar = peek(1)
 			if (nextChar) {
-				index = index + 2
+				index = index + 1 + nextChar.length
 				char = char + nextChar
 			} else {
 				castError('\\不能单独使用')
 			}
 		}
 
-		if (index > longestIndex) {
-      longestIndex = index
-    }
-
 		return char || null
 	}
 
 	const readChar = (char?: string) => {
+		const position = index
 		const c = read()
 
 		if (!char && c && !keyWords.includes(c)) {
@@ -64,6 +124,7 @@ const reRes = (input: string) => {
 		}
 
 		if (c !== char) {
+			expect(position, char || 'character')
 			castError()
 		}
 
@@ -79,7 +140,7 @@ const reRes = (input: string) => {
         node = reading()
         break
       } catch (e) {
-        if (e.name === 'dead') {
+        if (isFatal(e)) {
           throw e
         }
         index = currentIndex
@@ -99,7 +160,7 @@ const reRes = (input: string) => {
     try {
       node = reading()
     } catch (e) {
-			if (e.name === 'dead') {
+			if (isFatal(e)) {
         throw e
       }
       index = currentIndex
@@ -118,7 +179,7 @@ const reRes = (input: string) => {
       }
     } catch (e) {
       index = currentIndex
-      if (e.name === 'dead') {
+      if (isFatal(e)) {
         throw e
 			}
       if (!allowEmpty && nodes.length === 0) {
@@ -144,6 +205,9 @@ const reRes = (input: string) => {
 			try {
 				return readUnionExpr()
 			} catch (e) {
+				if (isFatal(e)) {
+					throw e
+				}
 				castError('invalid orExpr')
 			}
 
@@ -169,44 +233,352 @@ const reRes = (input: string) => {
 	}
 
 	const readMultiExpr = () => {
-		const node = orRead(readCharExpr, readGroupExpr)
-		const note = existRead(() => readChar('*'))
+		const node = orRead(readAssertExpr, readCharExpr, readDotExpr, readClassExpr, readGroupExpr)
 
-		if (note) {
+		// 断言不能跟量词
+		if (node.type === 'assert') {
+			return node
+		}
+
+		const quantifier = existRead(readQuantifier)
+
+		if (quantifier) {
+			const lazy = existRead(() => readChar('?')) !== null
 			return {
-				type: 'multi',
-				child: node
+				...quantifier,
+				child: node,
+				lazy
 			}
 		}
 
 		return node
 	}
 
+	const readQuantifier = () => {
+		switch (read()) {
+			case '*':
+				return { type: 'multi' }
+			case '+':
+				return { type: 'plus' }
+			case '?':
+				return { type: 'optional' }
+			case '{':
+				return readRepeat()
+			default:
+				return castError()
+		}
+	}
+
+	/**
+	 * 读取{n}, {m,}, {m,n}
+	 * max为Infinity表示没有上限
+	 */
+	const readRepeat = () => {
+		// {已经读过，范围不合法时指向{
+		const start = index - 1
+		const min = readNumber()
+		let max = min
+
+		if (peek() === ',') {
+			read()
+			max = peek() === '}' ? Infinity : readNumber()
+		}
+
+		if (peek() !== '}') {
+			castError('invalid quantifier')
+		}
+		read()
+
+		if (max < min) {
+			castError('invalid quantifier range', start)
+		}
+
+		return {
+			type: 'repeat',
+			min,
+			max
+		}
+	}
+
+	const readNumber = () => {
+		let str = ''
+
+		while (/[0-9]/.test(peek() || '')) {
+			str += read()
+		}
+
+		if (str === '') {
+			castError('invalid quantifier')
+		}
+
+		return parseInt(str, 10)
+	}
+
 	const readGroupExpr = () => {
 		readChar('(')
+		const group: any = {
+			type: 'group',
+			child: null
+		}
+
+		if (peek() === '?') {
+			read()
+			const char = read()
+
+			if (char === '<') {
+				group.name = readGroupName()
+				group.index = ++groupCount
+			} else if (char !== ':') {
+				castError('invalid group')
+			}
+		} else {
+			group.index = ++groupCount
+		}
 
 		try {
-			const node = existRead(readOrExpr)
+			group.child = existRead(readOrExpr)
 			readChar(')')
-			return {
-				type: 'group',
-				child: node
-			}
+			return group
 		} catch (e) {
-			castError('invalid group')
+			if (isFatal(e)) {
+				throw e
+			}
+			throw new RegexSyntaxError(input, e.offset, 'invalid group', e.expected, true)
 		}
 
 		return null
 	}
 
-	const readCharExpr = () => {
-		const char = readChar()
+	// 读取(?<name>)中的name
+	const readGroupName = () => {
+		let name = ''
+
+		while (peek() !== '>') {
+			const position = index
+			const char = read()
+			if (char === null || !/^[a-zA-Z_$0-9]$/.test(char) || (name === '' && /[0-9]/.test(char))) {
+				castError('invalid group name', position)
+			}
+			name += char
+		}
+		read()
+
+		if (name === '' || groupNames.includes(name)) {
+			castError('invalid group name')
+		}
+		groupNames.push(name)
+
+		return name
+	}
+
+	const readAssertExpr = () => {
+		const char = read()
+
+		if (char === '^' || char === '$') {
+			return {
+				type: 'assert',
+				child: char
+			}
+		}
+
+		if (char === '\\b' || char === '\\B') {
+			return {
+				type: 'assert',
+				child: char[1]
+			}
+		}
+
+		return castError()
+	}
+
+	// 忽略大小写时，集合加入所有大小写形式
+	const createSet = (set: CharSet) => {
+		return {
+			type: 'set',
+			child: ignoreCase ? caseFold(set) : set
+		}
+	}
+
+	/**
+	 * 简写的字符集合
+	 * 忽略大小写时，\W、\D、\S为折叠后的\w、\d、\s取反，直接折叠\W的话会因为ſ而包含s
+	 */
+	const getShorthand = (escaped: string) => {
+		const lower = escaped.toLowerCase()
+
+		if (!ignoreCase) {
+			return shorthandSets[escaped]
+		}
+
+		return lower === escaped ? caseFold(shorthandSets[escaped]) : negate(caseFold(shorthandSets[lower]))
+	}
+
+	const createChar = (char: string) => {
+		if (ignoreCase) {
+			const code = codeAt(char, 0)
+			const set = caseFold(fromRange(code, code))
+			if (set.length > 1 || set[0][0] !== set[0][1]) {
+				return createSet(set)
+			}
+		}
+
 		return {
 			type: 'char',
 			child: char
 		}
 	}
 
+	/**
+	 * 读取\u之后的码点，\u已经读取
+	 * \u{}中为十六进制数，不能超过0x10ffff
+	 * \uXXXX为4位十六进制数，不满足时与其他未知的转义一样当作普通字符u
+	 */
+	const readUnicodeEscape = () => {
+		const position = index - 2
+
+		if (peek() === '{') {
+			read()
+			let hex = ''
+			while (/[0-9a-fA-F]/.test(peek() || '')) {
+				hex += read()
+			}
+
+			if (peek() !== '}' || hex === '' || parseInt(hex, 16) > MAX_CHAR) {
+				castError('invalid unicode escape', position)
+			}
+			read()
+
+			return parseInt(hex, 16)
+		}
+
+		const readHex4 = (offset: number) => {
+			const hex = input.slice(offset, offset + 4)
+			return /^[0-9a-fA-F]{4}$/.test(hex) ? parseInt(hex, 16) : -1
+		}
+
+		const code = readHex4(index)
+		if (code === -1) {
+			return 'u'.charCodeAt(0)
+		}
+		index += 4
+
+		// 高位代理项后紧跟低位代理项时合并为一个码点
+		if (code >= 0xd800 && code <= 0xdbff && input.slice(index, index + 2) === '\\u') {
+			const low = readHex4(index + 2)
+			if (low >= 0xdc00 && low <= 0xdfff) {
+				index += 6
+				return (code - 0xd800) * 0x400 + (low - 0xdc00) + 0x10000
+			}
+		}
+
+		return code
+	}
+
+	const readCharExpr = () => {
+		const char = readChar() as string
+
+		// 转义的情况
+		if (char[0] === '\\') {
+			const escaped = char.slice(1)
+
+			if (shorthandSets[escaped]) {
+				return {
+					type: 'set',
+					child: getShorthand(escaped)
+				}
+			}
+
+			if (escaped === 'u') {
+				return createChar(String.fromCodePoint(readUnicodeEscape()))
+			}
+
+			return createChar(escapeChars[escaped] || escaped)
+		}
+
+		return createChar(char)
+	}
+
+	const readDotExpr = () => {
+		readChar('.')
+		return createSet(dotSet)
+	}
+
+	/**
+	 * 读取字符类
+	 * 字符类内部除了]和\\以外都当作普通字符处理
+	 */
+	const readClassExpr = () => {
+		readChar('[')
+
+		const isNegate = peek() === '^'
+		if (isNegate) {
+			read()
+		}
+
+		const sets: CharSet[] = []
+
+		while (peek() !== ']') {
+			const position = index
+			const from = readClassAtom()
+
+			if (typeof from !== 'number') {
+				sets.push(from)
+				continue
+			}
+
+			// -在结尾时当作普通字符
+			if (peek() === '-' && peek(1) !== ']' && peek(1) !== null) {
+				read()
+				const to = readClassAtom()
+				if (typeof to !== 'number' || to < from) {
+					castError('invalid range', position)
+				}
+				sets.push(fromRange(from, to as number))
+			} else {
+				sets.push(fromRange(from, from))
+			}
+		}
+
+		readChar(']')
+		// 取反前先折叠大小写，[^a]忽略大小写时也不匹配A
+		const set = ignoreCase ? caseFold(union(...sets)) : union(...sets)
+
+		return {
+			type: 'set',
+			child: isNegate ? negate(set) : set
+		}
+	}
+
+	// 读取字符类中的单个字符，简写返回字符集合
+	const readClassAtom = (): number | CharSet => {
+		const char = read()
+
+		if (char === null) {
+			return castError('invalid charClass')
+		}
+
+		if (char[0] === '\\') {
+			const escaped = char.slice(1)
+
+			if (shorthandSets[escaped]) {
+				return getShorthand(escaped)
+			}
+
+			// 字符类中的\b为退格符
+			if (escaped === 'b') {
+				return 8
+			}
+
+			if (escaped === 'u') {
+				return readUnicodeEscape()
+			}
+
+			return codeAt(escapeChars[escaped] || escaped, 0)
+		}
+
+		return codeAt(char, 0)
+	}
+
 	return readRoot()
 }
 
@@ -0,0 +1,81 @@
+import * as assert from 'assert'
+import * as chalk from 'chalk'
+import { createMatcher, MatchResult } from './search'
+import { codeAt, codeLength } from './charSet'
+import { createRandom } from '../random'
+
+/**
+ * 查找的语义：最左最长
+ * npx ts-node RE/search.test.ts
+ */
+
+// 匹配的范围，没有匹配时为null
+const span = (match: { start: number, end: number } | null) => match && [match.start, match.end]
+
+// 最左：起点最靠前；最长：同一起点取最长，与原生RegExp（最左优先）不同
+assert.deepStrictEqual(span(createMatcher('a|ab').exec('xab')), [1, 3])
+assert.deepStrictEqual(span(createMatcher('a*?').exec('aa')), [0, 2])
+assert.deepStrictEqual(span(createMatcher('b+|a+b*').exec('xaabbb')), [1, 6])
+assert.deepStrictEqual(span(createMatcher('[0-9]+').exec('a1b22', 2)), [3, 5])
+assert.strictEqual(createMatcher('x').exec('abc'), null)
+
+// anchored时匹配必须从给定位置开始
+assert.strictEqual(createMatcher('[0-9]+').exec('a1b22', 2, true), null)
+assert.deepStrictEqual(span(createMatcher('[0-9]+').exec('a1b22', 3, true)), [3, 5])
+assert.strictEqual(createMatcher('b').test('ab', true), false)
+assert.strictEqual(createMatcher('b').test('ab'), true)
+
+// 断言按照整个输入判断
+assert.strictEqual(createMatcher('^a').exec('aa', 1), null)
+assert.deepStrictEqual(span(createMatcher('\\bb').exec('ab b')), [3, 4])
+assert.deepStrictEqual(span(createMatcher('a$').exec('aa')), [1, 2])
+
+// longestMatchAt只看给定位置
+assert.deepStrictEqual(span(createMatcher('[0-9]+').longestMatchAt('22b', 0)), [0, 2])
+assert.strictEqual(createMatcher('[0-9]+').longestMatchAt('b22', 0), null)
+assert.deepStrictEqual(span(createMatcher('a*').longestMatchAt('b', 0)), [0, 0])
+assert.deepStrictEqual(createMatcher('(a)(b)?').longestMatchAt('ab')?.groups.map(span), [[0, 2], [0, 1], [1, 2]])
+
+// 空匹配后前进一个码点，不会停在代理对的中间
+assert.deepStrictEqual(createMatcher('a*').matchAll('baa').map(span), [[0, 0], [1, 3], [3, 3]])
+assert.deepStrictEqual(createMatcher('').matchAll('😀a').map(span), [[0, 0], [2, 2], [3, 3]])
+assert.deepStrictEqual(createMatcher('a|ab').matchAll('abab').map(span), [[0, 2], [2, 4]])
+assert.deepStrictEqual(createMatcher('\\w+x').matchAll('a'.repeat(8000)), [])
+
+/**
+ * 随机输入，与逐个位置求最长匹配的结果对比
+ * 匹配的起点与原生RegExp相同：某个位置上存在匹配时，回溯也一定能找到
+ */
+const patterns = ['a|ab', '\\w+x', 'a*', '\\bb', 'b$', '^a', '(a|b)*abb', '😀+', '[^a]?', 'a{2,3}?', '\\Bb|x\\b']
+const chars = ['a', 'b', 'x', ' ', '😀']
+const random = createRandom(1)
+
+patterns.forEach(pattern => {
+	const matcher = createMatcher(pattern)
+	const native = new RegExp(pattern, 'gu')
+
+	for (let run = 0; run < 200; run++) {
+		// 起点不在代理对的中间
+		let input = ''
+		let position = 0
+		for (let i = Math.floor(random() * 10); i > 0; i--) {
+			input += chars[Math.floor(random() * chars.length)]
+			position = random() < 0.3 ? input.length : position
+		}
+
+		let expected: MatchResult | null = null
+		for (let i = position; i <= input.length && !expected; i += i < input.length ? codeLength(codeAt(input, i)) : 1) {
+			expected = matcher.longestMatchAt(input, i)
+		}
+		const actual = matcher.exec(input, position)
+		const message = `/${pattern}/ on ${JSON.stringify(input)} from ${position}`
+
+		assert.deepStrictEqual(span(actual), span(expected), message)
+
+		native.lastIndex = position
+		const nativeMatch = native.exec(input)
+		assert.strictEqual(actual && actual.start, nativeMatch && nativeMatch.index, message)
+	}
+})
+
+console.log(chalk.green(`search cases passed, ${patterns.length} patterns checked on random inputs`))
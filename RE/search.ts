@@ -0,0 +1,226 @@
+import { re2nfa, kindAt, collectNodes, testAssert, TNode, TTransition } from './re2nfa'
+import { createDfaStarts, move, TQNode } from './re2dfa'
+import { createPikeVM, getCaptureInfo } from './pikeVM'
+import { codeAt, codeLength, has } from './charSet'
+
+/**
+ * 基于dfa的查找
+ * run只回答整个输入是否被接受，这里返回具体的匹配位置
+ *
+ * 语义：最左最长（leftmost-longest）
+ * 1. 从左往右找到第一个能产生匹配的起点
+ * 2. 在这个起点上取最长的匹配
+ *
+ * anchored为true时，匹配必须从给定位置开始，不会继续向后查找
+ * 不anchored时先在反向的nfa上从输入结尾向前扫描一遍，标记出所有能开始一个匹配的位置，
+ * 再从第一个这样的位置求最长匹配，不需要在每个位置上重新运行dfa
+ * 最长匹配需要沿着dfa走到没有边为止，a|a*b这类正则在aaa...上matchAll仍然是O(n²)
+ * ^、$、\b按照整个输入判断，从中间位置开始查找时^不会匹配
+ *
+ * 捕获组：dfa确定匹配范围后，再用pikeVM在这个范围内提取各组的位置
+ * groups[0]为整个匹配，groups[n]为第n个捕获组，未参与匹配的组为null
+ */
+
+export type MatchGroup = {
+	start: number
+	end: number
+	text: string
+}
+
+export type MatchResult = MatchGroup & {
+	groups: (MatchGroup | null)[]
+	namedGroups: Record<string, MatchGroup | null>
+}
+
+export const createMatcher = (regExp: string, flags = '') => {
+	const nfaStart = re2nfa(regExp, flags)
+	const getStart = createDfaStarts(nfaStart)
+	const pikeVM = createPikeVM(nfaStart)
+	const captureInfo = getCaptureInfo(nfaStart)
+
+	// 反向的边，原nfa中node到t.next的边记录在t.next上
+	const nodes = collectNodes(nfaStart)
+	const reversed = new Map<TNode, TTransition[]>()
+	nodes.forEach(node => {
+		node.transitions.forEach(t => {
+			const edges = reversed.get(t.next) || []
+			edges.push({ ...t, next: node })
+			reversed.set(t.next, edges)
+		})
+	})
+	const nfaEnd = nodes.find(node => node.type === 'end') as TNode
+
+	// 反向的epsilon闭包，断言仍然按照当前位置前后的字符判断
+	const reverseClosure = (nodes: TNode[], input: string, position: number) => {
+		const prevKind = kindAt(input, position - 1)
+		const nextKind = kindAt(input, position)
+		const visited = new Set<TNode>(nodes)
+		const stack = nodes.slice()
+
+		while (stack.length > 0) {
+			const edges = reversed.get(stack.pop() as TNode) || []
+			edges.forEach(t => {
+				if (t.value !== 'epsilon' || visited.has(t.next)) return
+				if (t.assert && !testAssert(t.assert, prevKind, nextKind)) return
+				visited.add(t.next)
+				stack.push(t.next)
+			})
+		}
+
+		return visited
+	}
+
+	/**
+	 * 从输入结尾向前扫描到position，starts[i]为1表示存在从i开始的匹配
+	 * 每个位置都加入end节点，相当于匹配可以在任意位置结束，闭包中含有start节点即可以从这里开始
+	 */
+	const findStarts = (input: string, position: number) => {
+		const starts = new Uint8Array(input.length + 1)
+		let current = reverseClosure([nfaEnd], input, input.length)
+
+		for (let i = input.length; ; ) {
+			if (current.has(nfaStart)) {
+				starts[i] = 1
+			}
+			if (i <= position) {
+				break
+			}
+
+			// 向前读一个码点，代理对不跨过position
+			const length = i - 2 >= position && codeLength(codeAt(input, i - 2)) === 2 ? 2 : 1
+			const code = codeAt(input, i - length)
+			const targets: TNode[] = [nfaEnd]
+
+			current.forEach(node => {
+				const edges = reversed.get(node) || []
+				edges.forEach(t => {
+					if (t.value !== 'epsilon' && has(t.value, code)) {
+						targets.push(t.next)
+					}
+				})
+			})
+
+			i -= length
+			current = reverseClosure(targets, input, i)
+		}
+
+		return starts
+	}
+
+	const createMatch = (input: string, start: number, end: number): MatchResult => {
+		const slots = pikeVM(input, start, true, end) as number[]
+		const groups: (MatchGroup | null)[] = []
+		const namedGroups: Record<string, MatchGroup | null> = {}
+
+		for (let i = 0; i <= captureInfo.count; i++) {
+			const groupStart = slots[i * 2]
+			const groupEnd = slots[i * 2 + 1]
+			groups.push(groupStart === -1 || groupEnd === -1 ? null : {
+				start: groupStart,
+				end: groupEnd,
+				text: input.slice(groupStart, groupEnd)
+			})
+		}
+
+		Object.keys(captureInfo.names).forEach(name => {
+			namedGroups[name] = groups[captureInfo.names[name]]
+		})
+
+		return {
+			start,
+			end,
+			text: input.slice(start, end),
+			groups,
+			namedGroups
+		}
+	}
+
+	/**
+	 * 从position开始的最长匹配
+	 * 沿着dfa一直走到没有边为止，记录最后一次经过接受状态的位置
+	 * 是否接受取决于下一个字符的类型
+	 */
+	const longestMatchAt = (input: string, position = 0) => {
+		let current: TQNode | null = getStart(kindAt(input, position - 1))
+		let end = current.ends[kindAt(input, position)] ? position : -1
+
+		for (let i = position; i < input.length;) {
+			const code = codeAt(input, i)
+			current = move(current, code)
+
+			if (current === null) {
+				break
+			}
+
+			i += codeLength(code)
+			if (current.ends[kindAt(input, i)]) {
+				end = i
+			}
+		}
+
+		return end === -1 ? null : createMatch(input, position, end)
+	}
+
+	// 从position开始查找第一个匹配，starts为findStarts的结果，可以在多次查找之间复用
+	const search = (input: string, position: number, starts: Uint8Array) => {
+		for (let i = position; i <= input.length; i++) {
+			if (starts[i]) {
+				return longestMatchAt(input, i)
+			}
+		}
+
+		return null
+	}
+
+	// 从position开始查找第一个匹配，不会从代理对的中间开始
+	const exec = (input: string, position = 0, anchored = false) => {
+		if (anchored) {
+			return longestMatchAt(input, position)
+		}
+
+		return search(input, position, findStarts(input, position))
+	}
+
+	// 输入中是否存在匹配
+	const test = (input: string, anchored = false) => {
+		return exec(input, 0, anchored) !== null
+	}
+
+	/**
+	 * 查找所有互不重叠的匹配
+	 * 空匹配后需要前进一个字符（一个码点），否则会在原地死循环
+	 */
+	const matchAll = (input: string) => {
+		const matches: MatchResult[] = []
+		const starts = findStarts(input, 0)
+		let position = 0
+
+		while (position <= input.length) {
+			const match = search(input, position, starts)
+
+			if (match === null) {
+				break
+			}
+
+			matches.push(match)
+			if (match.end > match.start) {
+				position = match.end
+			} else {
+				position = match.end + (match.end < input.length ? codeLength(codeAt(input, match.end)) : 1)
+			}
+		}
+
+		return matches
+	}
+
+	return {
+		test,
+		exec,
+		longestMatchAt,
+		matchAll
+	}
+}
+
+export type Matcher = ReturnType<typeof createMatcher>
+
+export default createMatcher
@@ -0,0 +1,218 @@
+import { TNode, TTransition, collectNodes } from './re2nfa'
+import { TQNode } from './re2dfa'
+import { DfaTable } from './dfaTable'
+import { CharSet, MAX_CHAR, negate, union, toString } from './charSet'
+
+/**
+ * 自动机的可视化
+ * nfa、dfa、dfa转移表先统一转化为图（TGraph），再导出为Graphviz（DOT）或者Mermaid的状态图
+ *
+ * 1. 起始状态用一条无起点的箭头标记，接受状态为双圈（Mermaid中指向[*]）
+ * 2. 同一对状态之间的字符边合并为一条，标签为合并后的字符类，如[a-z0-9]
+ * 3. epsilon边标记为ε，捕获组和断言的边额外标出，如ε (1、ε )1、ε ^
+ */
+
+export type TGraphNode = {
+	id: string
+	label: string
+	start: boolean
+	accept: boolean
+}
+
+export type TGraphEdge = {
+	from: string
+	to: string
+	label: string
+}
+
+export type TGraph = {
+	nodes: TGraphNode[]
+	edges: TGraphEdge[]
+}
+
+// 字符集合的标签，覆盖大部分字符时用取反的形式展示
+export const charSetLabel = (set: CharSet) => {
+	const size = set.reduce((sum, range) => sum + range[1] - range[0] + 1, 0)
+
+	if (size > (MAX_CHAR + 1) / 2) {
+		return `[^${toString(negate(set))}]`
+	}
+
+	if (set.length === 1 && set[0][0] === set[0][1]) {
+		return toString(set)
+	}
+
+	return `[${toString(set)}]`
+}
+
+const epsilonLabel = (t: TTransition) => {
+	if (t.save !== undefined) {
+		return `ε ${t.save % 2 === 0 ? '(' : ')'}${t.save >> 1}`
+	}
+
+	if (t.assert !== undefined) {
+		return `ε ${t.assert === 'b' || t.assert === 'B' ? '\\' + t.assert : t.assert}`
+	}
+
+	return 'ε'
+}
+
+// 将同一对状态之间的字符边合并
+const mergeEdges = (edges: { from: string, to: string, value: CharSet }[]) => {
+	const merged = new Map<string, { from: string, to: string, sets: CharSet[] }>()
+
+	edges.forEach(edge => {
+		const key = `${edge.from}->${edge.to}`
+		const item = merged.get(key)
+		item ? item.sets.push(edge.value) : merged.set(key, { from: edge.from, to: edge.to, sets: [edge.value] })
+	})
+
+	const result: TGraphEdge[] = []
+	merged.forEach(item => {
+		result.push({
+			from: item.from,
+			to: item.to,
+			label: charSetLabel(union(...item.sets))
+		})
+	})
+
+	return result
+}
+
+export const nfa2graph = (start: TNode): TGraph => {
+	const nodes = collectNodes(start)
+	const charEdges: { from: string, to: string, value: CharSet }[] = []
+	const edges: TGraphEdge[] = []
+
+	nodes.forEach(node => {
+		node.transitions.forEach(t => {
+			const from = `n${node.id}`
+			const to = `n${t.next.id}`
+
+			if (t.value === 'epsilon') {
+				edges.push({ from, to, label: epsilonLabel(t) })
+			} else {
+				charEdges.push({ from, to, value: t.value })
+			}
+		})
+	})
+
+	return {
+		nodes: nodes.map(node => ({
+			id: `n${node.id}`,
+			label: node.tag !== undefined ? `${node.id} #${node.tag}` : `${node.id}`,
+			start: node === start,
+			accept: node.type === 'end'
+		})),
+		edges: edges.concat(mergeEdges(charEdges))
+	}
+}
+
+// dfa状态按广度优先的顺序编号
+export const dfa2graph = (startQ: TQNode): TGraph => {
+	const states: TQNode[] = [startQ]
+	const indexes = new Map<TQNode, number>([[startQ, 0]])
+	const edges: TGraphEdge[] = []
+
+	for (let i = 0; i < states.length; i++) {
+		states[i].transitions.forEach(t => {
+			if (!indexes.has(t.next)) {
+				indexes.set(t.next, states.length)
+				states.push(t.next)
+			}
+			edges.push({
+				from: `q${i}`,
+				to: `q${indexes.get(t.next)}`,
+				label: charSetLabel(t.value)
+			})
+		})
+	}
+
+	return {
+		nodes: states.map((q, i) => ({
+			id: `q${i}`,
+			label: q.tag !== undefined ? `${i} #${q.tag}` : `${i}`,
+			start: i === 0,
+			accept: q.end
+		})),
+		edges
+	}
+}
+
+export const table2graph = (table: DfaTable): TGraph => {
+	const nodes: TGraphNode[] = []
+	const charEdges: { from: string, to: string, value: CharSet }[] = []
+
+	for (let s = 0; s < table.stateCount; s++) {
+		nodes.push({
+			id: `s${s}`,
+			label: `${s}`,
+			start: s === table.start,
+			accept: table.accepting[s]
+		})
+
+		for (let c = 0; c < table.classCount; c++) {
+			const next = table.next[s * table.classCount + c]
+			if (next !== -1) {
+				charEdges.push({ from: `s${s}`, to: `s${next}`, value: table.classes[c] })
+			}
+		}
+	}
+
+	return {
+		nodes,
+		edges: mergeEdges(charEdges)
+	}
+}
+
+const escapeDot = (str: string) => str.replace(/\\/g, '\\\\').replace(/"/g, '\\"')
+
+export const toDot = (graph: TGraph, name = 'automaton') => {
+	const lines = [
+		`digraph "${escapeDot(name)}" {`,
+		'  rankdir=LR;',
+		'  node [shape=circle];',
+		'  __start [shape=point];'
+	]
+
+	graph.nodes.forEach(node => {
+		lines.push(`  ${node.id} [label="${escapeDot(node.label)}"${node.accept ? ', shape=doublecircle' : ''}];`)
+	})
+
+	graph.nodes.filter(node => node.start).forEach(node => {
+		lines.push(`  __start -> ${node.id};`)
+	})
+
+	graph.edges.forEach(edge => {
+		lines.push(`  ${edge.from} -> ${edge.to} [label="${escapeDot(edge.label)}"];`)
+	})
+
+	lines.push('}')
+
+	return lines.join('\n') + '\n'
+}
+
+// Mermaid的标签中部分字符有特殊含义，使用#code;的形式转义
+const escapeMermaid = (str: string) => str.replace(/[:;#"<>{}]/g, char => `#${char.charCodeAt(0)};`)
+
+export const toMermaid = (graph: TGraph) => {
+	const lines = ['stateDiagram-v2', '  direction LR']
+
+	graph.nodes.forEach(node => {
+		lines.push(`  ${node.id} : ${escapeMermaid(node.label)}`)
+	})
+
+	graph.nodes.filter(node => node.start).forEach(node => {
+		lines.push(`  [*] --> ${node.id}`)
+	})
+
+	graph.edges.forEach(edge => {
+		lines.push(`  ${edge.from} --> ${edge.to} : ${escapeMermaid(edge.label)}`)
+	})
+
+	graph.nodes.filter(node => node.accept).forEach(node => {
+		lines.push(`  ${node.id} --> [*]`)
+	})
+
+	return lines.join('\n') + '\n'
+}
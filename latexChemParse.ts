@@ -2,6 +2,7 @@
  * 化学latex语法解析工具
  */
 import { tokenize, TokenRuleListType } from './tokenize'
+import { createLineMap, codeFrame } from './sourceLocation'
 
 /**
  * 词法规则定义
@@ -115,12 +116,16 @@ export const tokenRuleList: TokenRuleListType = [
 const parse = (input: string) => {
   const tokens = tokenize(input, tokenRuleList)
   const tokensLength = tokens.length
+  const lineMap = createLineMap(input)
   let index = 0
   let longestIndex = 0
   
+  // 错误信息附带出错的行列和源码片段
   const castError = (msg = '') => {
-    const newMsg = msg !== '' ? `parsing error in ${tokens[index].end}: ${msg}` : `parsing error: position ${tokens[longestIndex].start}`
-    const error = new Error(newMsg)
+    const offset = msg !== '' ? tokens[index].end : tokens[longestIndex].start
+    const position = lineMap.positionAt(offset)
+    const newMsg = msg !== '' ? `parsing error in ${offset}: ${msg}` : `parsing error: position ${offset}`
+    const error = new Error(`${newMsg} (line ${position.line}, column ${position.column})\n${codeFrame(lineMap, position)}`)
 
     if (msg) {
       error.name = 'dead'
@@ -0,0 +1,15 @@
+/**
+ * 带种子的伪随机数（mulberry32），返回[0, 1)之间的数
+ * 随机测试用，同一个种子得到的序列总是相同，出错时可以复现
+ */
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
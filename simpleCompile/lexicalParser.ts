@@ -4,7 +4,7 @@ import { TokenRuleListType, tokenize } from '../tokenize'
  * 词法解析工具
  */
 
-const tokenRuleList: TokenRuleListType = [
+export const tokenRuleList: TokenRuleListType = [
   {
     type: 'let',
     match: /^let(?=[^a-zA-Z_0-9$]|$)/
@@ -13,6 +13,46 @@ const tokenRuleList: TokenRuleListType = [
     type: 'if',
     match: /^if(?=[^a-zA-Z_0-9$]|$)/
   },
+  {
+    type: 'function',
+    match: /^function(?=[^a-zA-Z_0-9$]|$)/
+  },
+  {
+    type: 'return',
+    match: /^return(?=[^a-zA-Z_0-9$]|$)/
+  },
+  {
+    type: 'else',
+    match: /^else(?=[^a-zA-Z_0-9$]|$)/
+  },
+  {
+    type: 'while',
+    match: /^while(?=[^a-zA-Z_0-9$]|$)/
+  },
+  {
+    type: 'for',
+    match: /^for(?=[^a-zA-Z_0-9$]|$)/
+  },
+  {
+    type: 'break',
+    match: /^break(?=[^a-zA-Z_0-9$]|$)/
+  },
+  {
+    type: 'continue',
+    match: /^continue(?=[^a-zA-Z_0-9$]|$)/
+  },
+  {
+    type: 'boolean',
+    match: /^(true|false)(?=[^a-zA-Z_0-9$]|$)/
+  },
+  {
+    type: 'null',
+    match: /^null(?=[^a-zA-Z_0-9$]|$)/
+  },
+  {
+    type: 'undefined',
+    match: /^undefined(?=[^a-zA-Z_0-9$]|$)/
+  },
   {
     type: 'identifier',
     match: /^[\$_a-zA-Z][\$_a-zA-Z0-9]*/
@@ -77,11 +117,20 @@ const tokenRuleList: TokenRuleListType = [
   },
   {
     type: 'number',
-    match: /^[0-9]+/
+    // 十六进制、整数、小数，可以带指数
+    match: /^(0[xX][0-9a-fA-F]+|([0-9]+(\.[0-9]*)?|\.[0-9]+)([eE][+-]?[0-9]+)?)/
+  },
+  {
+    type: 'compoundAssign',
+    match: /^(\*\*=|\+=|-=|\*=|\/=|%=)/
   },
   {
     type: 'operator',
-    match: /^(\/|\*|\+|\-)/
+    match: /^(\*\*|\/|\*|\+|\-|%)/
+  },
+  {
+    type: 'relational',
+    match: /^(<=|>=|<|>)/
   },
   {
     type: 'or',
@@ -99,10 +148,30 @@ const tokenRuleList: TokenRuleListType = [
     type: 'unequal',
     match: /^\!==/
   },
+  {
+    type: 'not',
+    match: /^\!/
+  },
+  {
+    type: 'arrow',
+    match: /^=>/
+  },
+  {
+    type: 'comma',
+    match: /^,/
+  },
   {
     type: 'assign',
     match: /^=/
   },
+  {
+    type: 'question',
+    match: /^\?/
+  },
+  {
+    type: 'colon',
+    match: /^:/
+  },
   {
     type: 'lineEnd',
     match: /^;/
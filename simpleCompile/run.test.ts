@@ -0,0 +1,127 @@
+import * as assert from 'assert'
+import * as chalk from 'chalk'
+import syntaxParser from './syntaxParser'
+import Runtime, { RuntimeOptions } from './runtime/runtime'
+
+/**
+ * 解析并执行示例程序
+ * npx ts-node simpleCompile/run.test.ts
+ *
+ * 每个程序在新的Runtime中执行，比较最后一条语句的值或者抛出的错误
+ */
+
+// 逐条执行root下的语句，返回最后一条的值（evaluate root只打印不返回）
+const run = (input: string, options?: RuntimeOptions) => {
+  const runtime = new Runtime(options)
+  const root: any = syntaxParser(input)
+  const result = root.children.map(runtime.evaluate)
+
+  return result[result.length - 1]
+}
+
+// [程序, 最后一条语句的值]
+const cases: [string, any][] = [
+  ['function add(a, b) { return a + b }\nadd(1, 2)', 3],
+  ['let mul = function (a, b) { return a * b }\nmul(3, 4)', 12],
+  ['let inc = x => x + 1\ninc(inc(1))', 3],
+  ['function f() { let a = 1 }\nf()', undefined],
+  ['let makeCounter = function () { let n = 0 return () => { n = n + 1 return n } }\nlet c = makeCounter()\nc()\nc()', 2],
+  // 两个闭包各自的n互不影响
+  ['let makeCounter = function () { let n = 0 return () => { n = n + 1 return n } }\nlet c = makeCounter()\nlet d = makeCounter()\nc()\nc()\nd()', 1],
+  // 闭包捕获定义时的作用域，而不是调用时的
+  ['let a = 1\nfunction f() { return a }\nfunction g() { let a = 2 return f() }\ng()', 1],
+  ['function fib(n) { if (n === 0) { return 0 } if (n === 1) { return 1 } return fib(n - 1) + fib(n - 2) }\nfib(15)', 610],
+  // 循环
+  ['let s = 0\nfor (let i = 0; i !== 10; i = i + 1) { s = s + i }\ns', 45],
+  ['let s = 10\nlet n = 0\nwhile (s !== 0) { s = s - 1 n = n + 1 }\nn', 10],
+  ['let n = 0\nwhile (true) { n = n + 1 if (n === 5) { break } }\nn', 5],
+  ['let s = 0\nfor (let i = 0; i !== 5; i = i + 1) { if (i === 2) { continue } s = s + i }\ns', 8],
+  // 每次迭代的i是新的绑定
+  ['let f = 0\nlet g = 0\nfor (let i = 0; i !== 3; i = i + 1) { if (i === 1) { f = () => i } if (i === 2) { g = () => i } }\nf() * 10 + g()', 12],
+  ['let n = 0\nouter: for (let i = 0; i !== 3; i = i + 1) { for (let j = 0; j !== 3; j = j + 1) { if (j === 1) { continue outer } n = n + 1 } }\nn', 3],
+  ['let n = 0\nouter: while (true) { while (true) { n = n + 1 if (n === 4) { break outer } } }\nn', 4],
+  // 函数中的return跳出循环
+  ['function find() { for (let i = 0; true; i = i + 1) { if (i * i === 49) { return i } } }\nfind()', 7],
+  // 分支
+  ['function grade(n) { if (n === 1) { return "a" } else if (n === 2) { return "b" } else { return "c" } }\ngrade(1) + grade(2) + grade(3)', 'abc'],
+  ['let a = 0\nif (false) { a = 1 } else if (false) { a = 2 }\na', 0],
+  ['let a = 0\nif (true) { a = 1 } else { a = 2 }\na', 1],
+  ['let b = 2\nlet a = b === 1 ? 10 : b === 2 ? 20 : 30\na', 20],
+  // 三元的优先级低于||，条件为false || true
+  ['false || true ? 1 : 2', 1],
+  ['let a = 0\na = true ? false ? 1 : 2 : 3\na', 2],
+  // 字面量
+  ['0xff', 255],
+  ['1.5 + .5', 2],
+  ['1e3', 1000],
+  ['true', true],
+  ['null', null],
+  ['undefined', undefined],
+  ['"a" + 1', 'a1'],
+  ['"a" === \'a\'', true],
+  ['"x\\"y"', 'x"y'],
+  ['\'it\\\'s\'', 'it\'s'],
+  ['"a\\nb\\tc\\0"', 'a\nb\tc\0'],
+  ['"\\x41\\u0042\\u{1F600}"', 'AB😀'],
+  // 行尾的\为续行，其他字符转义为自身
+  ['"a\\\nb\\q"', 'abq'],
+  // 运算符和优先级
+  ['2 ** 3 ** 2 === 512', true],
+  ['-2 ** 2 === -4', true],
+  ['(-2) ** 2', 4],
+  ['1 + 2 * 3 - 4 / 2', 5],
+  ['(1 + 2) * 3 % 4', 1],
+  ['10 - 3 - 2', 5],
+  ['!true === false', true],
+  ['-(1 + 2) + +"3"', 0],
+  ['1 < 2 === 2 >= 2', true],
+  ['false || true && false', false],
+  ['let a = 1\nlet b = 2\na = b = 3\na + b', 6],
+  ['let a = 2\na **= 3\na += 1\na %= 5\na', 4],
+  ['let f = x => y => x - y\nf(5)(2) * 2', 6]
+]
+
+// [程序, 错误信息, 运行时选项]
+const errorCases: [string, RegExp, RuntimeOptions?][] = [
+  ['function r(n) { return r(n + 1) }\nr(0)', /call depth limit 500 exceeded/],
+  ['function r(n) { return r(n + 1) }\nr(0)', /call depth limit 10 exceeded/, { maxCallDepth: 10 }],
+  ['let a = 1\na()', /is not a function/],
+  ['"\\x4"', /invalid escape in string/],
+  ['"\\u{110000}"', /invalid escape in string/],
+  ['while (true) {}', /step limit 1000000 exceeded/],
+  ['let n = 0\nwhile (true) { n = n + 1 }', /step limit 100 exceeded/, { maxSteps: 100 }]
+]
+
+cases.forEach(([input, expected]) => {
+  assert.deepStrictEqual(run(input), expected, input)
+})
+
+errorCases.forEach(([input, message, options]) => {
+  assert.throws(() => run(input, options), message, input)
+})
+
+// 语法错误指向出错的关键字：[程序, 完整的错误信息]
+const syntaxErrorCases: [string, string][] = [
+  ['function f() {\n  return\n}\nreturn', 'parsing error in 26: return outside function (line 4, column 1)\n4 | return\n  | ^'],
+  ['break\nlet a = 1', 'parsing error in 0: break outside loop (line 1, column 1)\n1 | break\n  | ^'],
+  ['let a = 1\n  continue', 'parsing error in 12: continue outside loop (line 2, column 3)\n2 |   continue\n  |   ^'],
+  // 函数体内不能跳出外面的循环
+  ['while (true) { let f = () => { break } }', 'parsing error in 31: break outside loop (line 1, column 32)\n1 | while (true) { let f = () => { break } }\n  |                                ^'],
+  ['while (true) {\n  break outer\n}', 'parsing error in 23: undefined label outer (line 2, column 9)\n2 |   break outer\n  |         ^']
+]
+
+syntaxErrorCases.forEach(([input, message]) => {
+  assert.throws(() => syntaxParser(input), (e: any) => {
+    assert.strictEqual(e.message, message)
+    return true
+  }, input)
+})
+
+// 超过调用深度后栈已经恢复，可以继续执行
+const runtime = new Runtime({ maxCallDepth: 10 })
+const root: any = syntaxParser('function r(n) { return r(n + 1) }\nlet a = 1')
+root.children.map(runtime.evaluate)
+assert.throws(() => runtime.evaluate((syntaxParser('r(0)') as any).children[0]), /call depth limit/)
+assert.strictEqual(runtime.evaluate((syntaxParser('(() => a)()') as any).children[0]), 1)
+
+console.log(chalk.green(`${cases.length + errorCases.length + syntaxErrorCases.length} programs passed`))
@@ -2,6 +2,8 @@ import * as chalk from 'chalk'
 import * as readline from 'readline'
 import * as process from 'process'
 import syntaxParser from './syntaxParser'
+import { tokenRuleList } from './lexicalParser'
+import { tokenizeWithRecovery } from '../tokenize'
 import Runtime from './runtime/runtime'
 
 // 运行代码
@@ -16,6 +18,15 @@ const run = () => {
   console.log(chalk.green('runtime start, please input something:'));
 
   rl.on('line', (input) => {
+    // 先列出所有无法识别的输入，而不是只报第一个
+    const { diagnostics } = tokenizeWithRecovery(input, tokenRuleList)
+    if (diagnostics.length) {
+      diagnostics.forEach(diagnostic => {
+        console.log(chalk.red(`${diagnostic.message} (line ${diagnostic.loc.start.line}, column ${diagnostic.loc.start.column})\n${diagnostic.frame}`))
+      })
+      return
+    }
+
     try {
       runtime.evaluate(syntaxParser(input))
     } catch (e) {
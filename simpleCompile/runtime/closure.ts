@@ -0,0 +1,30 @@
+/**
+ * 函数值
+ * 闭包记录定义时的frame，调用时在这个frame上创建新的frame，而不是调用处的frame
+ */
+import Frame from './frame'
+
+class Closure {
+  constructor (name: string | null, params: string[], body: any, frame: Frame) {
+    this.name = name
+    this.params = params
+    this.body = body
+    this.frame = frame
+  }
+
+  // 函数名，匿名函数为null
+  name: string | null
+
+  // 参数名
+  params: string[]
+
+  // 函数体，blockStatement或者箭头函数的表达式
+  body: any
+
+  // 定义时的作用域
+  frame: Frame
+
+  toString = () => `[function ${this.name || 'anonymous'}]`
+}
+
+export default Closure
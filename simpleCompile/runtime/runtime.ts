@@ -4,33 +4,245 @@
  */
 import * as chalk from 'chalk'
 import Frame from './frame'
+import Closure from './closure'
+
+// return语句抛出，由函数调用处接住
+class ReturnSignal {
+  constructor (public value: any) {}
+}
+
+// break、continue语句抛出，由对应的循环接住，label为null时由最内层的循环接住
+class BreakSignal {
+  constructor (public label: string | null) {}
+}
+
+class ContinueSignal {
+  constructor (public label: string | null) {}
+}
+
+/**
+ * 二元运算（不含短路的||、&&），复合赋值也使用这里的运算
+ * @param {string} operator 运算符
+ */
+const operate = (operator: string, value1: any, value2: any) => {
+  // 任意一边为字符串时拼接，否则相加
+  if (operator === '+') {
+    return typeof value1 === 'string' || typeof value2 === 'string' ? `${value1}${value2}` : value1 + value2
+  }
+
+  if (operator === '-') {
+    return value1 - value2
+  }
+
+  if (operator === '*') {
+    return value1 * value2
+  }
+
+  if (operator === '/') {
+    return value1 / value2
+  }
+
+  if (operator === '%') {
+    return value1 % value2
+  }
+
+  if (operator === '**') {
+    return value1 ** value2
+  }
+
+  // 严格相等，字符串按内容比较
+  if (operator === '===') {
+    return value1 === value2
+  }
+
+  if (operator === '!==') {
+    return value1 !== value2
+  }
+
+  // 两边都是字符串时按字典序比较，否则按数字比较
+  if (operator === '<') {
+    return value1 < value2
+  }
+
+  if (operator === '>') {
+    return value1 > value2
+  }
+
+  if (operator === '<=') {
+    return value1 <= value2
+  }
+
+  if (operator === '>=') {
+    return value1 >= value2
+  }
+
+  throw new Error(`unknown operator ${operator}`)
+}
+
+export type RuntimeOptions = {
+  // 每次evaluate允许的最大步数（循环的迭代和函数调用），超过时报错，避免死循环卡住REPL
+  maxSteps?: number
+  // 函数调用的最大深度，超过时报错，而不是耗尽宿主的调用栈
+  maxCallDepth?: number
+}
 
 // 运行时工具
 class Runtime {
+  constructor (options: RuntimeOptions = {}) {
+    this.maxSteps = options.maxSteps === undefined ? 1000000 : options.maxSteps
+    this.maxCallDepth = options.maxCallDepth === undefined ? 500 : options.maxCallDepth
+  }
+
   // 变量定义
   private stacks: Frame[] = [new Frame()]
 
+  private maxSteps: number
+
+  // 当前执行的步数
+  private steps = 0
+
+  private maxCallDepth: number
+
+  // 当前函数调用的深度
+  private callDepth = 0
+
   private get currentFrame () {
     return this.stacks[this.stacks.length - 1]
   }
 
+  private step = () => {
+    this.steps++
+    if (this.steps > this.maxSteps) {
+      throw new Error(`step limit ${this.maxSteps} exceeded, maybe there is an infinite loop`)
+    }
+  }
+
+  /**
+   * 执行while、for循环
+   * labels为循环上的label，不带label或者带这些label的break、continue由这个循环处理，否则继续向外抛出
+   * for中let声明的变量每次迭代复制到新的frame中，闭包捕获的是当次迭代的值
+   */
+  private loop = (node: any, labels: string[]) => {
+    const [init, test, update, body] = node.type === 'forStatement' ? node.children : [null, node.children[0], null, node.children[1]]
+    const names: string[] = init && init.type === 'letDeclaration' ? [init.children[0].children] : []
+    const outerFrame = this.currentFrame
+    const depth = this.stacks.length
+    const isOwn = (signal: BreakSignal | ContinueSignal) => signal.label === null || labels.indexOf(signal.label) !== -1
+
+    const nextIteration = () => {
+      const frame = new Frame(outerFrame)
+      names.forEach(name => frame.setOwnValue(name, this.currentFrame.getOwnValue(name)))
+      this.stacks[depth] = frame
+    }
+
+    this.stacks.push(new Frame(outerFrame))
+
+    try {
+      if (init) {
+        this.evaluate(init)
+      }
+      nextIteration()
+
+      while (!test || this.evaluate(test)) {
+        this.step()
+
+        try {
+          this.evaluate(body)
+        } catch (e) {
+          // 跳过的块语句没有出栈
+          this.stacks.length = depth + 1
+          if (e instanceof BreakSignal && isOwn(e)) {
+            break
+          }
+          if (!(e instanceof ContinueSignal && isOwn(e))) {
+            throw e
+          }
+        }
+
+        nextIteration()
+        if (update) {
+          this.evaluate(update)
+        }
+      }
+    } finally {
+      this.stacks.length = depth
+    }
+
+    return undefined
+  }
+
+  /**
+   * 调用函数
+   * 在闭包的frame上创建参数的frame，压入栈中执行函数体，结束后恢复栈（return会跳过中间的块语句）
+   * 函数体中嵌套很深时，没到maxCallDepth宿主的调用栈就可能耗尽，同样转换为调用深度的错误
+   */
+  private call = (closure: Closure, args: any[]) => {
+    this.step()
+
+    if (this.callDepth >= this.maxCallDepth) {
+      throw new Error(`call depth limit ${this.maxCallDepth} exceeded, maybe there is an infinite recursion`)
+    }
+
+    const frame = new Frame(closure.frame)
+    closure.params.forEach((param, i) => frame.setOwnValue(param, args[i]))
+
+    const depth = this.stacks.length
+    this.stacks.push(frame)
+    this.callDepth++
+
+    try {
+      const result = this.evaluate(closure.body)
+      // 箭头函数的表达式体直接作为返回值，块没有return时返回undefined
+      return closure.body.type === 'blockStatement' ? undefined : result
+    } catch (e) {
+      if (e instanceof ReturnSignal) {
+        return e.value
+      }
+      if (e instanceof RangeError && /call stack/.test(e.message)) {
+        throw new Error(`call depth limit exceeded at depth ${this.callDepth}, maybe there is an infinite recursion`)
+      }
+      throw e
+    } finally {
+      this.stacks.length = depth
+      this.callDepth--
+    }
+  }
+
   // 解析ast
   public evaluate = (node: any) => {
     switch  (node.type) {
       // 跟节点输出最后结果
       case 'root': {
+        this.steps = 0
         const result = node.children.map(this.evaluate)
         const length = result.length
         if (length > 0) {
-          console.log(chalk.magentaBright(result[length - 1]))
+          // 字符串带上引号，与数字等区分
+          const value = result[length - 1]
+          console.log(chalk.magentaBright(typeof value === 'string' ? JSON.stringify(value) : value))
           return
         }
         break;
       }
 
       // number类型直接返回
+      // 支持十六进制、小数和指数
       case 'number': {
-        return parseInt(node.children)
+        return Number(node.children)
+      }
+
+      // 字符串的转义在语法解析时已经处理
+      case 'string':
+      case 'boolean': {
+        return node.children
+      }
+
+      case 'null': {
+        return null
+      }
+
+      case 'undefined': {
+        return undefined
       }
 
       // identifier类型需要判断变量是否存在，后返回
@@ -67,6 +279,83 @@ class Runtime {
         return value
       }
 
+      // a += b 即 a = a + b
+      case 'compoundAssignStatement': {
+        const [operator, idNode, valueNode] = node.children
+        const id = idNode.children
+
+        if (!this.currentFrame?.hasScopedKey(id)) {
+          throw new Error(`variable ${id} has not defined`)
+        }
+
+        const value = operate(operator, this.currentFrame.getScopedValue(id), this.evaluate(valueNode))
+        this.currentFrame.setScopedValue(id, value)
+        return value
+      }
+
+      // 函数声明和let一样定义在当前作用域
+      case 'functionDeclaration': {
+        const [id, params, body] = node.children
+        const closure = new Closure(id.children, params.map((param: any) => param.children), body, this.currentFrame)
+        this.currentFrame.setOwnValue(id.children, closure)
+        return closure
+      }
+
+      // 具名的函数表达式，名称定义在闭包和外层作用域之间的frame中，只在函数体内可见
+      case 'functionExpr': {
+        const [id, params, body] = node.children
+        const frame = id ? new Frame(this.currentFrame) : this.currentFrame
+        const closure = new Closure(id ? id.children : null, params.map((param: any) => param.children), body, frame)
+        if (id) {
+          frame.setOwnValue(id.children, closure)
+        }
+        return closure
+      }
+
+      case 'arrowFunction': {
+        const [params, body] = node.children
+        return new Closure(null, params.map((param: any) => param.children), body, this.currentFrame)
+      }
+
+      case 'callExpr': {
+        const [callee, args] = node.children
+        const closure = this.evaluate(callee)
+
+        if (!(closure instanceof Closure)) {
+          throw new Error(`${callee.type === 'identifier' ? callee.children : closure} is not a function`)
+        }
+
+        return this.call(closure, args.map(this.evaluate))
+      }
+
+      case 'returnStatement': {
+        throw new ReturnSignal(node.children[0] ? this.evaluate(node.children[0]) : undefined)
+      }
+
+      case 'whileStatement':
+      case 'forStatement': {
+        return this.loop(node, [])
+      }
+
+      // 收集连续的label，交给循环处理
+      case 'labelledStatement': {
+        const labels: string[] = []
+        let statement = node
+        while (statement.type === 'labelledStatement') {
+          labels.push(statement.children[0].children)
+          statement = statement.children[1]
+        }
+        return this.loop(statement, labels)
+      }
+
+      case 'breakStatement': {
+        throw new BreakSignal(node.children[0] ? node.children[0].children : null)
+      }
+
+      case 'continueStatement': {
+        throw new ContinueSignal(node.children[0] ? node.children[0].children : null)
+      }
+
       case 'blockStatement': {
         // 块级作用域
         this.stacks.push(new Frame(this.currentFrame))
@@ -82,28 +371,24 @@ class Runtime {
           return this.evaluate(node.children[1])
         }
 
+        // else分支，else if为嵌套的ifStatement
+        if (node.children[2]) {
+          return this.evaluate(node.children[2])
+        }
+
         return undefined
       }
 
+      // 只对选中的分支求值
+      case 'conditionalExpr': {
+        const [test, consequent, alternate] = node.children
+        return this.evaluate(test) ? this.evaluate(consequent) : this.evaluate(alternate)
+      }
+
       case 'binaryExpr': {
         const [operator, child1, child2] = node.children
 
-        if (operator === '+') {
-          return this.evaluate(child1) + this.evaluate(child2)
-        }
-
-        if (operator === '-') {
-          return this.evaluate(child1) - this.evaluate(child2)
-        }
-
-        if (operator === '*') {
-          return this.evaluate(child1) * this.evaluate(child2)
-        }
-
-        if (operator === '/') {
-          return this.evaluate(child1) / this.evaluate(child2)
-        }
-
+        // 逻辑运算短路，不一定对右边求值
         if (operator === '||') {
           return this.evaluate(child1) || this.evaluate(child2)
         }
@@ -112,12 +397,23 @@ class Runtime {
           return this.evaluate(child1) && this.evaluate(child2)
         }
 
-        if (operator === '===') {
-          return this.evaluate(child1) === this.evaluate(child2)
+        return operate(operator, this.evaluate(child1), this.evaluate(child2))
+      }
+
+      case 'unaryExpr': {
+        const [operator, child] = node.children
+        const value = this.evaluate(child)
+
+        if (operator === '-') {
+          return -value
+        }
+
+        if (operator === '+') {
+          return +value
         }
 
-        if (operator === '!==') {
-          return this.evaluate(child1) !== this.evaluate(child2)
+        if (operator === '!') {
+          return !value
         }
       }
     }
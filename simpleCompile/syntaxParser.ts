@@ -1,33 +1,66 @@
 import lexicalParser from './lexicalParser'
+import { createLineMap, codeFrame } from '../sourceLocation'
+import { TokenType } from '../tokenize'
 
 /**
  * 语法解析工具
  * 
  * 文法:
  * root = {[statement]}
- * statement = letDeclaration | assignStatement | ifStatement | blockStatement
+ * statement = letDeclaration | functionDeclaration | returnStatement | labelledStatement | whileStatement | forStatement
+ *   | breakStatement | continueStatement | assignStatement | ifStatement | blockStatement
  * 
  * 块语句
  * blockStatement = '{', {[statement]} ,'}'
  * 
  * if语句
- * ifStatement = 'if', '(', assignStatement, ')', blockStatement
+ * ifStatement = 'if', '(', assignStatement, ')', blockStatement, ['else', (ifStatement | blockStatement)]
+ *
+ * 循环语句，label只能用在循环上
+ * whileStatement = 'while', '(', assignStatement, ')', blockStatement
+ * forStatement = 'for', '(', [letDeclaration | assignStatement], ';', [assignStatement], ';', [assignStatement], ')', blockStatement
+ * labelledStatement = 'identifier', ':', (whileStatement | forStatement | labelledStatement)
+ *
+ * break、continue只能出现在循环内，label与关键字在同一行
+ * breakStatement = 'break', ['identifier']
+ * continueStatement = 'continue', ['identifier']
  * 
  * 声明语句
  * letDeclaration = 'let', 'identifier', ['=', assignStatement]
+ *
+ * 函数声明、函数表达式、箭头函数
+ * functionDeclaration = 'function', 'identifier', params, blockStatement
+ * functionExpr = 'function', ['identifier'], params, blockStatement
+ * arrowFunction = ('identifier' | params), '=>', (blockStatement | assignStatement)
+ * params = '(', ['identifier', {',', 'identifier'}], ')'
+ *
+ * return语句，只能出现在函数体内
+ * returnStatement = 'return', [assignStatement]
  * 
  * 表达式语句
- * exprStatement = orExpr
+ * exprStatement = conditionalExpr
+ *
+ * 三元表达式，右结合性，优先级低于||，高于赋值
+ * conditionalExpr = orExpr, ['?', assignStatement, ':', assignStatement]
  * 
  * 赋值语句, 右结合性
- * assignStatement = 'identifier', '=', assignStatement | exprStatement
+ * assignStatement = arrowFunction | 'identifier', ('=' | '+=' | '-=' | '*=' | '/=' | '%=' | '**='), assignStatement | exprStatement
  * 
  * addExpr = addExpr, '+', multiExpr | addExpr, '-', multiExpr | multiExpr
  * multiExpr = multiExpr, '*', number | multiExpr, '/', number | number
  * 
  * 由于上面表达式会产生左递归问题，所以可以使用循环迭代代替左递归
  * addExpr = multiExpr, {['+', multiExpr | '-', multiExpr]}
- * multiExpr = number, {['*', number | '/', number]}
+ * multiExpr = unaryExpr, {['*', unaryExpr | '/', unaryExpr | '%', unaryExpr]}
+ *
+ * 一元表达式，指数运算右结合，指数可以带一元运算符，-2 ** 2为-(2 ** 2)
+ * unaryExpr = ('-' | '+' | '!'), unaryExpr | exponentExpr
+ * exponentExpr = callExpr, ['**', unaryExpr]
+ *
+ * 函数调用
+ * callExpr = primaryExpr, {args}
+ * args = '(', [assignStatement, {',', assignStatement}], ')'
+ * primaryExpr = number | string | boolean | null | undefined | functionExpr | 'identifier' | '(', assignStatement, ')'
  * 
  * or表达式
  * orExpr = orExpr, '||', andExpr | andExpr
@@ -38,9 +71,82 @@ import lexicalParser from './lexicalParser'
  * andExpr = equalExpr, {['||', equalExpr]}
  * 
  * ===表达式
- * equalExpr = addExpr, {['===', addExpr | '!==', addExpr]}
+ * equalExpr = relationalExpr, {['===', relationalExpr | '!==', relationalExpr]}
+ *
+ * 比较表达式
+ * relationalExpr = addExpr, {['<' | '>' | '<=' | '>=', addExpr]}
+ *
+ * 运算符优先级（从低到高）
+ * 1. = += -= *= /= %= **=  右结合
+ * 2. ? :                   右结合
+ * 3. ||                    左结合
+ * 4. &&                    左结合
+ * 5. === !==               左结合
+ * 6. < > <= >=             左结合
+ * 7. + -                   左结合
+ * 8. * / %                 左结合
+ * 9. 一元 - + !             右结合
+ * 10. **                   右结合
+ * 11. 函数调用 f(a)          左结合
+ * 12. 括号 (a)
  */
 
+// 单字符的转义
+const escapeChars: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  b: '\b',
+  f: '\f',
+  v: '\v',
+  0: '\0'
+}
+
+/**
+ * 解析字符串字面量中的转义，literal为带引号的原始文本
+ * 支持\n等单字符转义、\xHH、\uHHHH、\u{H...}和行尾的\（续行），其他字符转义为自身
+ * 转义不合法时返回null
+ */
+const decodeString = (literal: string) => {
+  const body = literal.slice(1, -1)
+  let result = ''
+
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] !== '\\') {
+      result += body[i]
+      continue
+    }
+
+    const char = body[++i]
+    let hex: string | null = null
+
+    if (char === 'x') {
+      hex = /^[0-9a-fA-F]{2}$/.test(body.substr(i + 1, 2)) ? body.substr(i + 1, 2) : null
+      i += 2
+    } else if (char === 'u' && body[i + 1] === '{') {
+      const end = body.indexOf('}', i)
+      hex = end !== -1 && /^[0-9a-fA-F]+$/.test(body.slice(i + 2, end)) ? body.slice(i + 2, end) : null
+      i = end
+    } else if (char === 'u') {
+      hex = /^[0-9a-fA-F]{4}$/.test(body.substr(i + 1, 4)) ? body.substr(i + 1, 4) : null
+      i += 4
+    } else if (char === '\r' && body[i + 1] === '\n') {
+      i++
+      continue
+    } else {
+      result += char === '\n' ? '' : escapeChars[char] || char
+      continue
+    }
+
+    if (hex === null || parseInt(hex, 16) > 0x10ffff) {
+      return null
+    }
+    result += String.fromCodePoint(parseInt(hex, 16))
+  }
+
+  return result
+}
+
 /**
  * 这种写法不如抛错拦截来的舒服，需要调整, 缺点在于要写很多if来判断错误
  * 规定产生回溯的表达式返回null
@@ -48,16 +154,25 @@ import lexicalParser from './lexicalParser'
  */
 const syntaxParser = (input: string) => {
   const tokens = lexicalParser(input)
+  const lineMap = createLineMap(input)
   let index = 0
   let longestIndex = 0
+  // 当前所在函数体的层数，为0时不允许return
+  let functionDepth = 0
+  // 当前函数内所在循环的层数和外层循环的label，进入函数体时清空
+  let loopDepth = 0
+  let labels: string[] = []
 
   /**
-   * 抛出错误
+   * 抛出错误，附带出错的行列和源码片段
    * @param { string } msg 错误信息
+   * @param { TokenType } token 出错的token，错误指向它的开头，如return outside function指向return
    */
-  const castError = (msg?: string) => {
-    const newMsg = msg ? `parsing error in ${tokens[index].end}: ${msg}` : `parsing error: position ${tokens[longestIndex].start}`
-    throw new Error(newMsg)
+  const castError = (msg?: string, token?: TokenType) => {
+    const offset = token ? token.start : msg ? tokens[index].end : tokens[longestIndex].start
+    const position = lineMap.positionAt(offset)
+    const newMsg = msg ? `parsing error in ${offset}: ${msg}` : `parsing error: position ${offset}`
+    throw new Error(`${newMsg} (line ${position.line}, column ${position.column})\n${codeFrame(lineMap, position)}`)
   }
 
   /**
@@ -117,6 +232,34 @@ const syntaxParser = (input: string) => {
     return null
   }
 
+  // 读取字符串，转义在解析时处理
+  const readString = () => {
+    const literal = readToken('literal')
+    if (literal) {
+      const value = decodeString(literal)
+      if (value === null) {
+        castError(`invalid escape in string ${literal}`)
+      }
+      return createNode('string', value)
+    }
+    return null
+  }
+
+  // 读取true、false、null、undefined
+  const readKeywordLiteral = () => {
+    const boolean = readToken('boolean')
+    if (boolean) {
+      return createNode('boolean', boolean === 'true')
+    }
+    if (readToken('null')) {
+      return createNode('null')
+    }
+    if (readToken('undefined')) {
+      return createNode('undefined')
+    }
+    return null
+  }
+
   // 读取Identifier
   const readIdentifier = () => {
     const id = readToken('identifier')
@@ -211,7 +354,19 @@ const syntaxParser = (input: string) => {
   }
 
   const readStatement = () => {
-    return orRead(readLetDeclaration, readAssignStatement, readIfStatement, readBlockStatement)
+    return orRead(
+      readLetDeclaration,
+      readFunctionDeclaration,
+      readReturnStatement,
+      readLabelledStatement,
+      readWhileStatement,
+      readForStatement,
+      () => readJumpStatement('break'),
+      () => readJumpStatement('continue'),
+      readAssignStatement,
+      readIfStatement,
+      readBlockStatement
+    )
   }
 
   /**
@@ -278,12 +433,124 @@ const syntaxParser = (input: string) => {
     return null
   }
 
+  /**
+   * 读取参数列表
+   * params = '(', ['identifier', {',', 'identifier'}], ')'
+   * 不符合时返回null，以便回溯
+   */
+  const readParams = () => {
+    if (readToken('parentheses', '(')) {
+      const first = readIdentifier()
+      const params = first ? [first, ...multiRead(() => readToken('comma') ? readIdentifier() : null) as any[]] : []
+
+      if (readToken('parentheses', ')')) {
+        return params
+      }
+    }
+
+    return null
+  }
+
+  // 读取函数体，函数体内允许return，不能break、continue到函数外的循环
+  const readFunctionBody = (reading: Function) => {
+    const outerLoopDepth = loopDepth
+    const outerLabels = labels
+
+    functionDepth++
+    loopDepth = 0
+    labels = []
+    const body = reading()
+    functionDepth--
+    loopDepth = outerLoopDepth
+    labels = outerLabels
+
+    return body
+  }
+
+  /**
+   * 读取函数声明
+   * functionDeclaration = 'function', 'identifier', params, blockStatement
+   */
+  const readFunctionDeclaration = () => {
+    if (readToken('function')) {
+      const id = readIdentifier()
+      const params = id && readParams()
+
+      if (params) {
+        const body = readFunctionBody(readBlockStatement)
+        if (body) {
+          return createNode('functionDeclaration', [id, params, body])
+        }
+      }
+      castError('invalid functionDeclaration')
+    }
+
+    return null
+  }
+
+  /**
+   * 读取函数表达式，名称只在函数体内可见
+   * functionExpr = 'function', ['identifier'], params, blockStatement
+   */
+  const readFunctionExpr = () => {
+    if (readToken('function')) {
+      const id = readIdentifier()
+      const params = readParams()
+
+      if (params) {
+        const body = readFunctionBody(readBlockStatement)
+        if (body) {
+          return createNode('functionExpr', [id, params, body])
+        }
+      }
+      castError('invalid functionExpr')
+    }
+
+    return null
+  }
+
+  /**
+   * 读取箭头函数，函数体为表达式时作为返回值
+   * arrowFunction = ('identifier' | params), '=>', (blockStatement | assignStatement)
+   */
+  const readArrowFunction = () => {
+    const id = readIdentifier()
+    const params = id ? [id] : readParams()
+
+    if (params && readToken('arrow')) {
+      const body = readFunctionBody(() => orRead(readBlockStatement, readAssignStatement))
+      if (body) {
+        return createNode('arrowFunction', [params, body])
+      }
+      castError('invalid arrowFunction')
+    }
+
+    return null
+  }
+
+  /**
+   * 读取return语句
+   * returnStatement = 'return', [assignStatement]
+   */
+  const readReturnStatement = () => {
+    if (readToken('return')) {
+      if (functionDepth === 0) {
+        castError('return outside function', tokens[index - 1])
+      }
+
+      const value = existRead(readAssignStatement)
+      return createNode('returnStatement', value ? [value] : [])
+    }
+
+    return null
+  }
+
   /**
    * 读取赋值表达式, 右结合性
-   * assignStatement = 'identifier', '=', assignStatement | exprStatement
+   * assignStatement = arrowFunction | 'identifier', '=', assignStatement | exprStatement
    */
   const readAssignStatement = () => {
-    return orRead(() => {
+    return orRead(readArrowFunction, () => {
       const id = readIdentifier()
 
       if (id) {
@@ -297,6 +564,18 @@ const syntaxParser = (input: string) => {
 
           castError('invalid assignStatement')
         }
+
+        // 复合赋值，记录去掉=的运算符
+        const compoundAssign = readToken('compoundAssign')
+        if (compoundAssign) {
+          const node = readAssignStatement()
+
+          if (node) {
+            return createNode('compoundAssignStatement', [compoundAssign.slice(0, -1), id, node])
+          }
+
+          castError('invalid assignStatement')
+        }
       }
       
       return null
@@ -305,7 +584,28 @@ const syntaxParser = (input: string) => {
 
   // 表达式语句
   const readExprStatement = () => {
-    return readOrExpr()
+    return readConditionalExpr()
+  }
+
+  /**
+   * 读取三元表达式
+   * conditionalExpr = orExpr, ['?', assignStatement, ':', assignStatement]
+   */
+  const readConditionalExpr = () => {
+    const test = readOrExpr()
+
+    if (test && readToken('question')) {
+      const consequent = readAssignStatement()
+      if (consequent && readToken('colon')) {
+        const alternate = readAssignStatement()
+        if (alternate) {
+          return createNode('conditionalExpr', [test, consequent, alternate])
+        }
+      }
+      castError('invalid conditionalExpr')
+    }
+
+    return test
   }
 
   /**
@@ -330,11 +630,21 @@ const syntaxParser = (input: string) => {
 
   /**
    * 读取等式表达式
-   * equalExpr = addExpr, {['===', addExpr | '!==', addExpr]}
+   * equalExpr = relationalExpr, {['===', relationalExpr | '!==', relationalExpr]}
    */
   const readEqualExpr = () => readBinaryExpr(
-    readAddExpr,
+    readRelationalExpr,
     () => orRead(() => readToken('equal'), () => readToken('unequal')),
+    readRelationalExpr
+  )
+
+  /**
+   * 读取比较表达式
+   * relationalExpr = addExpr, {['<' | '>' | '<=' | '>=', addExpr]}
+   */
+  const readRelationalExpr = () => readBinaryExpr(
+    readAddExpr,
+    () => readToken('relational'),
     readAddExpr
   )
 
@@ -351,14 +661,99 @@ const syntaxParser = (input: string) => {
 
   /**
    * 读取乘法表达式
-   * multiExpr = number, {['*', number | '/', number]}
+   * multiExpr = unaryExpr, {['*', unaryExpr | '/', unaryExpr | '%', unaryExpr]}
    */
   const readMultiExpr = () => readBinaryExpr(
-    () => orRead(readNumber, readIdentifier),
-    () => orRead(() => readToken('operator', '*'), () => readToken('operator', '/')),
-    () => orRead(readNumber, readIdentifier)
+    readUnaryExpr,
+    () => orRead(() => readToken('operator', '*'), () => readToken('operator', '/'), () => readToken('operator', '%')),
+    readUnaryExpr
   )
 
+  /**
+   * 读取一元表达式
+   * unaryExpr = ('-' | '+' | '!'), unaryExpr | exponentExpr
+   */
+  const readUnaryExpr = (): any => {
+    const operator = orRead(() => readToken('operator', '-'), () => readToken('operator', '+'), () => readToken('not'))
+
+    if (operator) {
+      const node = readUnaryExpr()
+      if (!node) {
+        castError(`invalid unaryExpr ${operator}`)
+      }
+      return createNode('unaryExpr', [operator, node])
+    }
+
+    return readExponentExpr()
+  }
+
+  /**
+   * 读取指数表达式，右结合性
+   * exponentExpr = callExpr, ['**', unaryExpr]
+   */
+  const readExponentExpr = () => {
+    const base = readCallExpr()
+
+    if (base && readToken('operator', '**')) {
+      const exponent = readUnaryExpr()
+      if (!exponent) {
+        castError('invalid binaryExpr **')
+      }
+      return createNode('binaryExpr', ['**', base, exponent])
+    }
+
+    return base
+  }
+
+  /**
+   * 读取括号表达式
+   * parenthesesExpr = '(', assignStatement, ')'
+   */
+  const readParenthesesExpr = () => {
+    if (readToken('parentheses', '(')) {
+      const node = readAssignStatement()
+      if (node && readToken('parentheses', ')')) {
+        return node
+      }
+      castError('invalid parenthesesExpr')
+    }
+
+    return null
+  }
+
+  /**
+   * 读取函数调用的参数
+   * args = '(', [assignStatement, {',', assignStatement}], ')'
+   */
+  const readArgs = () => {
+    if (readToken('parentheses', '(')) {
+      const first = readAssignStatement()
+      const args = first ? [first, ...multiRead(() => readToken('comma') ? readAssignStatement() : null) as any[]] : []
+
+      if (readToken('parentheses', ')')) {
+        return args
+      }
+      castError('invalid callExpr')
+    }
+
+    return null
+  }
+
+  /**
+   * 读取函数调用，连续调用时左结合，f(1)(2)
+   * callExpr = primaryExpr, {args}
+   */
+  const readCallExpr = () => {
+    const callee = orRead(readNumber, readString, readKeywordLiteral, readFunctionExpr, readIdentifier, readParenthesesExpr)
+
+    if (callee) {
+      const argsList = multiRead(readArgs) as any[][]
+      return argsList.reduce((node, args) => createNode('callExpr', [node, args]), callee)
+    }
+
+    return null
+  }
+
   /**
    * 读取块语句
    * blockStatement = '{', {[statement]} ,'}'
@@ -377,7 +772,7 @@ const syntaxParser = (input: string) => {
 
   /**
    * 读取if语句
-   * ifStatement = 'if', '(', assignStatement, ')', blockStatement
+   * ifStatement = 'if', '(', assignStatement, ')', blockStatement, ['else', (ifStatement | blockStatement)]
    * 繁琐语句的情况下，当前的写法及其没有效率，需要改成latex模式
    */
   const readIfStatement = () => {
@@ -387,6 +782,14 @@ const syntaxParser = (input: string) => {
         if (readToken('parentheses', ')') && assignment) {
           const blockStatement = readBlockStatement()
           if ( blockStatement) {
+            if (readToken('else')) {
+              // else if直接作为else分支
+              const alternate = orRead(readIfStatement, readBlockStatement)
+              if (!alternate) {
+                castError('invalid else')
+              }
+              return createNode('ifStatement', [assignment, blockStatement, alternate])
+            }
             return createNode('ifStatement', [assignment, blockStatement])
           }
         }
@@ -396,6 +799,111 @@ const syntaxParser = (input: string) => {
     return null
   }
 
+  // 读取循环体，循环体内允许break、continue
+  const readLoopBody = () => {
+    loopDepth++
+    const body = readBlockStatement()
+    loopDepth--
+    return body
+  }
+
+  /**
+   * 读取while语句
+   * whileStatement = 'while', '(', assignStatement, ')', blockStatement
+   */
+  const readWhileStatement = () => {
+    if (readToken('while')) {
+      if (readToken('parentheses', '(')) {
+        const test = readAssignStatement()
+        if (readToken('parentheses', ')') && test) {
+          const body = readLoopBody()
+          if (body) {
+            return createNode('whileStatement', [test, body])
+          }
+        }
+      }
+      castError('invalid whileStatement')
+    }
+    return null
+  }
+
+  /**
+   * 读取for语句，省略的部分为null
+   * forStatement = 'for', '(', [letDeclaration | assignStatement], ';', [assignStatement], ';', [assignStatement], ')', blockStatement
+   */
+  const readForStatement = () => {
+    if (readToken('for')) {
+      if (readToken('parentheses', '(')) {
+        const init = existRead(() => orRead(readLetDeclaration, readAssignStatement))
+        if (readToken('lineEnd')) {
+          const test = existRead(readAssignStatement)
+          if (readToken('lineEnd')) {
+            const update = existRead(readAssignStatement)
+            if (readToken('parentheses', ')')) {
+              const body = readLoopBody()
+              if (body) {
+                return createNode('forStatement', [init, test, update, body])
+              }
+            }
+          }
+        }
+      }
+      castError('invalid forStatement')
+    }
+    return null
+  }
+
+  /**
+   * 读取带label的循环
+   * labelledStatement = 'identifier', ':', (whileStatement | forStatement | labelledStatement)
+   */
+  const readLabelledStatement = () => {
+    const label = readIdentifier()
+
+    if (label && readToken('colon')) {
+      if (labels.indexOf(label.children) !== -1) {
+        castError(`label ${label.children} has already been declared`)
+      }
+
+      labels = labels.concat(label.children)
+      const statement = orRead(readWhileStatement, readForStatement, readLabelledStatement)
+      labels = labels.slice(0, -1)
+
+      if (statement) {
+        return createNode('labelledStatement', [label, statement])
+      }
+      castError('invalid labelledStatement')
+    }
+
+    return null
+  }
+
+  /**
+   * 读取break、continue语句
+   * 同一行的identifier为label，必须是外层循环的label
+   */
+  const readJumpStatement = (type: 'break' | 'continue') => {
+    if (readToken(type)) {
+      const keyword = tokens[index - 1]
+      if (loopDepth === 0) {
+        castError(`${type} outside loop`, keyword)
+      }
+
+      const next = peek()
+      if (next && next.type === 'identifier' && next.loc.start.line === keyword.loc.end.line) {
+        const label = readIdentifier() as any
+        if (labels.indexOf(label.children) === -1) {
+          castError(`undefined label ${label.children}`, next)
+        }
+        return createNode(`${type}Statement`, [label])
+      }
+
+      return createNode(`${type}Statement`, [])
+    }
+
+    return null
+  }
+
   return readRoot()
 }
 
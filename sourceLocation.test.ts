@@ -0,0 +1,74 @@
+import * as assert from 'assert'
+import * as chalk from 'chalk'
+import { TokenRuleListType, TokenizeError, tokenize } from './tokenize'
+import { createLineMap, createLineCursor, codeFrame } from './sourceLocation'
+
+/**
+ * token的行列以及错误的源码片段
+ * npx ts-node sourceLocation.test.ts
+ */
+const rules: TokenRuleListType = [
+  { type: 'word', match: /^[a-z]+/ },
+  { type: 'emoji', match: /^😀/ },
+  { type: 'string', match: /^"[^"]*"/ },
+  { type: 'space', match: /^[ \t\r\n]+/, skip: true }
+]
+
+// [type, 开始行, 开始列, 结束行, 结束列]
+const locs = (input: string) => tokenize(input, rules).map(token => [token.type, token.loc.start.line, token.loc.start.column, token.loc.end.line, token.loc.end.column])
+
+// 结束位置为token之后的位置
+assert.deepStrictEqual(locs('ab cd\n  ef'), [
+  ['^', 1, 1, 1, 1],
+  ['word', 1, 1, 1, 3],
+  ['word', 1, 4, 1, 6],
+  ['word', 2, 3, 2, 5],
+  ['$', 2, 5, 2, 5]
+])
+
+// 跨行的token
+assert.deepStrictEqual(locs('a "b\nc\nd" e').slice(2, 4), [
+  ['string', 1, 3, 3, 3],
+  ['word', 3, 4, 3, 5]
+])
+
+// \r\n中的\r算作行尾的字符
+assert.deepStrictEqual(locs('ab\r\ncd').slice(1, 3), [
+  ['word', 1, 1, 1, 3],
+  ['word', 2, 1, 2, 3]
+])
+
+// 列号按字符串下标计算，代理对占两列
+assert.deepStrictEqual(locs('😀ab'), [
+  ['^', 1, 1, 1, 1],
+  ['emoji', 1, 1, 1, 3],
+  ['word', 1, 3, 1, 5],
+  ['$', 1, 5, 1, 5]
+])
+
+// 行首位置表与只向后计算的LineCursor一致
+const input = 'ab\r\n😀\n\ncd'
+const lineMap = createLineMap(input)
+const cursor = createLineCursor(input, { offset: 0, line: 1, column: 1 })
+for (let offset = 0; offset <= input.length; offset++) {
+  assert.deepStrictEqual(cursor.positionAt(offset), lineMap.positionAt(offset), `offset ${offset}`)
+}
+assert.strictEqual(lineMap.lineText(1), 'ab')
+assert.strictEqual(lineMap.lineText(3), '')
+
+// 源码片段：行号、去掉\r的行内容，tab保留使^对齐
+assert.strictEqual(codeFrame(lineMap, lineMap.positionAt(input.indexOf('d'))), '4 | cd\n  |  ^')
+const tabs = createLineMap('a\n\tb c')
+assert.strictEqual(codeFrame(tabs, tabs.positionAt(5)), '2 | \tb c\n  | \t  ^')
+
+// 分词错误的位置和源码片段
+assert.throws(() => tokenize('ab\r\n  cd @ e', rules), (e: any) => {
+  assert.ok(e instanceof TokenizeError)
+  assert.deepStrictEqual(e.position, { offset: 9, line: 2, column: 6 })
+  assert.strictEqual(e.lineText, '  cd @ e')
+  assert.strictEqual(e.frame, '2 |   cd @ e\n  |      ^')
+  assert.strictEqual(e.message, 'Tokenize error: position 9 (line 2, column 6)\n2 |   cd @ e\n  |      ^')
+  return true
+})
+
+console.log(chalk.green('source location cases passed'))
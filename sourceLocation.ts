@@ -0,0 +1,120 @@
+/**
+ * 源码中的位置
+ * offset为字符串下标，line、column从1开始，column按字符串下标计算
+ * 换行符为\n，\r\n中的\r算作行尾的字符，展示时去掉
+ */
+export type SourcePosition = {
+  offset: number
+  line: number
+  column: number
+}
+
+export type SourceLocation = {
+  start: SourcePosition
+  end: SourcePosition
+}
+
+/**
+ * 行首位置表
+ * 记录每一行开头的下标，二分查找offset所在的行
+ */
+export const createLineMap = (input: string) => {
+  const lineStarts = [0]
+
+  for (let i = 0; i < input.length; i++) {
+    if (input[i] === '\n') {
+      lineStarts.push(i + 1)
+    }
+  }
+
+  const positionAt = (offset: number): SourcePosition => {
+    let low = 0
+    let high = lineStarts.length - 1
+
+    while (low < high) {
+      const mid = (low + high + 1) >> 1
+      if (lineStarts[mid] <= offset) {
+        low = mid
+      } else {
+        high = mid - 1
+      }
+    }
+
+    return {
+      offset,
+      line: low + 1,
+      column: offset - lineStarts[low] + 1
+    }
+  }
+
+  const locationOf = (start: number, end: number): SourceLocation => ({
+    start: positionAt(start),
+    end: positionAt(end)
+  })
+
+  // 第line行的内容，不含换行符
+  const lineText = (line: number) => {
+    const start = lineStarts[line - 1]
+    const end = line < lineStarts.length ? lineStarts[line] - 1 : input.length
+    return input.slice(start, end).replace(/\r$/, '')
+  }
+
+  return {
+    positionAt,
+    locationOf,
+    lineText
+  }
+}
+
+export type LineMap = ReturnType<typeof createLineMap>
+
+/**
+ * 只向后计算的位置，从已知的位置from开始逐个字符数换行
+ * 增量分词时只需要计算重新分词的部分，不需要整个输入的行首位置表
+ * 每次传入的offset不能早于上一次
+ */
+export const createLineCursor = (input: string, from: SourcePosition) => {
+  let current = from.offset
+  let line = from.line
+  let lineStart = from.offset - from.column + 1
+
+  const positionAt = (offset: number): SourcePosition => {
+    for (; current < offset; current++) {
+      if (input[current] === '\n') {
+        line++
+        lineStart = current + 1
+      }
+    }
+
+    return {
+      offset,
+      line,
+      column: offset - lineStart + 1
+    }
+  }
+
+  const locationOf = (start: number, end: number): SourceLocation => ({
+    start: positionAt(start),
+    end: positionAt(end)
+  })
+
+  return {
+    positionAt,
+    locationOf
+  }
+}
+
+/**
+ * 带^标记的源码片段
+ * 2 | let a = @
+ *   |         ^
+ */
+export const codeFrame = (lineMap: LineMap, position: SourcePosition) => {
+  const gutter = `${position.line}`
+  const blank = ' '.repeat(gutter.length)
+  const text = lineMap.lineText(position.line)
+  // tab保留为tab，使^和上一行对齐
+  const padding = text.slice(0, position.column - 1).replace(/[^\t]/g, ' ')
+
+  return `${gutter} | ${text}\n${blank} | ${padding}^`
+}
@@ -0,0 +1,275 @@
+import * as assert from 'assert'
+import * as chalk from 'chalk'
+import * as process from 'process'
+import { TokenRuleListType, TokenModeMapType, TokenType, tokenize, retokenize, tokenizeChunks, tokenizeStream, tokenizeWithRecovery } from './tokenize'
+import { tokenRuleList as simpleRules } from './simpleCompile/lexicalParser'
+import { tokenRuleList as latexRules } from './latexChemParse'
+import { createRandom } from './random'
+
+/**
+ * 分词模式、恢复模式的断言，以及增量分词和流式分词的随机测试
+ * npx ts-node tokenize.test.ts
+ *
+ * 随机拼接输入片段，随机修改，retokenize的结果需要与对修改后的输入直接tokenize相同（包括抛出的错误）
+ * 随机切分输入，tokenizeChunks的结果需要与直接tokenize相同，流式分词的源码片段可能被截断，错误只比较位置
+ */
+
+// latex中的数学模式，\text{}中回到文本
+const modeRules: TokenModeMapType = {
+  default: [
+    { type: 'dollar', match: /^\$/, push: 'math' },
+    { type: 'text', match: /^[^$]+/ }
+  ],
+  math: [
+    { type: 'dollar', match: /^\$/, pop: true },
+    { type: 'textCommand', match: /^\\text\{/, push: 'textGroup' },
+    { type: 'command', match: /^\\[a-z]+/ },
+    { type: 'space', match: /^\s+/, skip: true },
+    { type: 'char', match: /^[^$\\\s]/ }
+  ],
+  textGroup: [
+    { type: 'close', match: /^\}/, pop: true },
+    { type: 'text', match: /^[^}]+/ }
+  ]
+}
+
+// 模式的直接断言：[type, match, 匹配时的模式栈]
+const modeTokens = (input: string, rules: TokenModeMapType) => tokenize(input, rules).map(token => [token.type, token.match, (token.modes as string[]).join('/')])
+
+// push进入新的模式，pop回到上一层，每个token记录匹配时的模式栈
+assert.deepStrictEqual(modeTokens('a$x \\text{b$}$', modeRules), [
+  ['^', '^', 'default'],
+  ['text', 'a', 'default'],
+  ['dollar', '$', 'default'],
+  ['char', 'x', 'default/math'],
+  ['textCommand', '\\text{', 'default/math'],
+  // 只有当前模式的规则生效，textGroup中的$是文本
+  ['text', 'b$', 'default/math/textGroup'],
+  ['close', '}', 'default/math/textGroup'],
+  ['dollar', '$', 'default/math'],
+  ['$', '$', 'default']
+])
+// math以外的\\text{只是文本
+assert.deepStrictEqual(modeTokens('\\text{a}', modeRules).slice(1, -1), [['text', '\\text{a}', 'default']])
+// math中没有匹配\\的规则
+assert.throws(() => tokenize('$\\$', modeRules), /Tokenize error: position 1/)
+
+// 栈底的模式不会被pop
+const popRules: TokenModeMapType = {
+  default: [
+    { type: 'close', match: /^\}/, pop: true },
+    { type: 'open', match: /^\{/, push: 'inner' },
+    { type: 'x', match: /^x/ }
+  ],
+  inner: [
+    { type: 'close', match: /^\}/, pop: true },
+    { type: 'y', match: /^x/ }
+  ]
+}
+assert.deepStrictEqual(modeTokens('}}x{x}x', popRules).slice(1, -1), [
+  ['close', '}', 'default'],
+  ['close', '}', 'default'],
+  ['x', 'x', 'default'],
+  ['open', '{', 'default'],
+  ['y', 'x', 'default/inner'],
+  ['close', '}', 'default/inner'],
+  ['x', 'x', 'default']
+])
+
+// 未知的模式和缺少default模式在分词前报错
+assert.throws(() => tokenize('x', { default: [{ type: 'x', match: /^x/, push: 'missing' }] }), /unknown lexer mode missing/)
+assert.throws(() => tokenize('x', { other: [{ type: 'x', match: /^x/ }] }), /lexer mode default is required/)
+// 规则为列表时token上没有modes
+assert.strictEqual(tokenize('x', [{ type: 'x', match: /^x/ }])[1].modes, undefined)
+
+console.log(chalk.green('mode cases passed'))
+
+// 恢复模式：相邻的无法识别的字符合并为一个error token，之后继续分词
+const recovered = tokenizeWithRecovery('let a = @#1\nb 😀@', simpleRules)
+assert.deepStrictEqual(recovered.tokens.map(token => [token.type, token.match, token.start, token.end]), [
+  ['^', '^', 0, 0],
+  ['let', 'let', 0, 3],
+  ['identifier', 'a', 4, 5],
+  ['assign', '=', 6, 7],
+  ['error', '@#', 8, 10],
+  ['number', '1', 10, 11],
+  ['identifier', 'b', 12, 13],
+  ['error', '😀@', 14, 17],
+  ['$', '$', 17, 17]
+])
+// 诊断信息的位置和源码片段，最后一个在输入的结尾
+assert.deepStrictEqual(recovered.diagnostics, [
+  {
+    message: 'unexpected input "@#"',
+    start: 8,
+    end: 10,
+    loc: { start: { offset: 8, line: 1, column: 9 }, end: { offset: 10, line: 1, column: 11 } },
+    frame: '1 | let a = @#1\n  |         ^'
+  },
+  {
+    message: 'unexpected input "😀@"',
+    start: 14,
+    end: 17,
+    loc: { start: { offset: 14, line: 2, column: 3 }, end: { offset: 17, line: 2, column: 6 } },
+    frame: '2 | b 😀@\n  |   ^'
+  }
+])
+assert.deepStrictEqual(tokenizeWithRecovery('let a', simpleRules).diagnostics, [])
+
+console.log(chalk.green('recovery cases passed'))
+
+type TSuite = {
+  name: string
+  rules: TokenRuleListType | TokenModeMapType
+  pieces: string[]
+  recover: boolean
+}
+
+const suites: TSuite[] = [
+  {
+    name: 'simpleCompile',
+    rules: simpleRules,
+    pieces: ['let ', 'a', ' ', '=', '===', '!==', '1', '\n', '"', '"x\\"y"', '"a longer string"', '\\', '&&', '||', '{', '}', '😀', '@'],
+    recover: false
+  },
+  {
+    name: 'simpleCompile recover',
+    rules: simpleRules,
+    pieces: ['let ', 'a', ' ', '=', '1', '\n', '"', '"a longer string"', '\\', '&', '|', '@', '😀', '!'],
+    recover: true
+  },
+  {
+    name: 'latex',
+    rules: latexRules,
+    pieces: ['<=>>', '<=>', '<', '=', '>', '-', '\\', '\\frac', '{', '}', '^', '_', ' ', '\n', 'H', '😀'],
+    recover: false
+  },
+  {
+    name: 'modes',
+    rules: modeRules,
+    pieces: ['$', 'x', ' ', '\n', '\\text{', '}', '\\alpha', '\\', 'ab'],
+    recover: false
+  }
+]
+
+// 分词结果或者错误信息，withFrame为false时只比较错误的位置
+const outcome = (run: () => TokenType[], withFrame = true) => {
+  try {
+    return JSON.stringify(run())
+  } catch (e) {
+    return `error: ${withFrame ? e.message : JSON.stringify(e.position)}`
+  }
+}
+
+// 随机拼接count个片段
+const createText = (suite: TSuite, random: () => number) => (count: number) => {
+  let result = ''
+  for (let i = 0; i < count; i++) {
+    result += suite.pieces[Math.floor(random() * suite.pieces.length)]
+  }
+  return result
+}
+
+const testRetokenize = (suite: TSuite, random: () => number, runs: number) => {
+  const text = createText(suite, random)
+  const options = { recover: suite.recover }
+
+  for (let i = 0; i < runs; i++) {
+    const input = text(Math.floor(random() * 12))
+    let prevTokens: TokenType[]
+    try {
+      prevTokens = tokenize(input, suite.rules, options)
+    } catch (e) {
+      continue
+    }
+
+    const offset = Math.floor(random() * (input.length + 1))
+    const deleteLength = Math.floor(random() * (Math.min(4, input.length - offset) + 1))
+    const insertText = text(Math.floor(random() * 3))
+    const next = input.slice(0, offset) + insertText + input.slice(offset + deleteLength)
+
+    const expected = outcome(() => tokenize(next, suite.rules, options))
+    const actual = outcome(() => {
+      const result = retokenize(next, prevTokens, { offset, deleteLength, insertText }, suite.rules, options)
+      // 原地修改prevTokens
+      assert.strictEqual(result.tokens, prevTokens)
+      return result.tokens
+    })
+
+    if (expected !== actual) {
+      console.log(chalk.red(`${suite.name}: retokenize mismatch`))
+      console.log(`input: ${JSON.stringify(input)}`)
+      console.log(`edit: ${JSON.stringify({ offset, deleteLength, insertText })}`)
+      console.log(`expected: ${expected}`)
+      console.log(`actual: ${actual}`)
+      process.exit(1)
+    }
+  }
+}
+
+const testChunks = (suite: TSuite, random: () => number, runs: number) => {
+  const text = createText(suite, random)
+
+  for (let i = 0; i < runs; i++) {
+    const input = text(Math.floor(random() * 16))
+    // 包含空块
+    const chunks: string[] = []
+    for (let offset = 0; offset < input.length;) {
+      const length = Math.floor(random() * 6)
+      chunks.push(input.slice(offset, offset + length))
+      offset += length
+    }
+    // 规则的判断最多需要9个字符（continue和之后的一个字符），字符串等token可以比lookahead长
+    const options = { recover: suite.recover, lookahead: 9 + Math.floor(random() * 8) }
+    // 无法匹配时只等到读完当前行，跨行的token不能比lookahead长
+    const crossLine = tokenize(input, suite.rules, { recover: true }).some(token => token.match.indexOf('\n') !== -1 && token.match.length > options.lookahead)
+    if (crossLine) {
+      options.lookahead = input.length
+    }
+
+    const expected = outcome(() => tokenize(input, suite.rules, options), false)
+    const actual = outcome(() => Array.from(tokenizeChunks(chunks, suite.rules, options)), false)
+
+    if (expected !== actual) {
+      console.log(chalk.red(`${suite.name}: tokenizeChunks mismatch`))
+      console.log(`chunks: ${JSON.stringify(chunks)}`)
+      console.log(`lookahead: ${options.lookahead}`)
+      console.log(`expected: ${expected}`)
+      console.log(`actual: ${actual}`)
+      process.exit(1)
+    }
+  }
+}
+
+// 异步的输入块，字符串与Buffer混合时保持原来的顺序
+const testStream = async () => {
+  async function* source () {
+    const bytes = Buffer.from('aé😀')
+    yield bytes.slice(0, 2)
+    yield bytes.slice(2, 5)
+    yield 'b'
+    yield bytes.slice(3, 7)
+    yield bytes.slice(0, 1)
+  }
+  const chars: string[] = []
+  for await (const token of tokenizeStream(source(), [{ type: 'char', match: /^[\s\S]/u }])) {
+    chars.push(token.match)
+  }
+  // 被字符串打断的不完整字符解码为U+FFFD
+  assert.deepStrictEqual(chars, ['^', 'a', 'é', '\ufffd', 'b', '😀', 'a', '$'])
+  console.log(chalk.green('tokenizeStream passed'))
+}
+
+const random = createRandom(1)
+
+suites.forEach(suite => {
+  testRetokenize(suite, random, 2000)
+  console.log(chalk.green(`${suite.name}: retokenize passed`))
+  testChunks(suite, random, 2000)
+  console.log(chalk.green(`${suite.name}: tokenizeChunks passed`))
+})
+
+testStream().catch(e => {
+  console.log(chalk.red(e.stack))
+  process.exit(1)
+})
@@ -1,50 +1,242 @@
+import { StringDecoder } from 'string_decoder'
+import { SourceLocation, SourcePosition, LineMap, createLineMap, createLineCursor, codeFrame } from './sourceLocation'
+import { setErrorPrototype } from './RE/errors'
+
 export type TokenType = {
   type: string
   match: string
   start: number
   end: number
+  // 开始和结束的行列
+  loc: SourceLocation
+  // 使用模式时，匹配这个token之前的模式栈
+  modes?: string[]
 }
 
 export type TokenRuleType = {
   type: string
   // 表示是否将解析结果计入token流中
   skip?: boolean
+  // 正则需要以^开头，函数的input为剩余的输入
   match: RegExp | ((input: string, originInput: string) => string | null)
+  // 匹配后进入的模式
+  push?: string
+  // 匹配后回到上一个模式，与push同时存在时先pop再push
+  pop?: boolean
 }
 
 export type TokenRuleListType = TokenRuleType[]
 
-const match = (input: string, originInput: string, ruleList: TokenRuleListType) => {
+/**
+ * 词法模式：模式名 => 该模式下的规则
+ * 从default模式开始，规则上的push、pop维护一个模式栈，总是使用栈顶模式的规则
+ * {
+ *   default: [{ type: 'dollar', match: /^\$/, push: 'math' }, ...],
+ *   math: [{ type: 'dollar', match: /^\$/, pop: true }, ...]
+ * }
+ */
+export type TokenModeMapType = Record<string, TokenRuleListType>
+
+export const DEFAULT_MODE = 'default'
+
+// 无法识别的输入
+export const ERROR_TOKEN = 'error'
+
+export type TokenizeOptions = {
+  // 为true时，无法匹配的连续输入合并为一个error token，继续分词到结尾，而不是抛出TokenizeError
+  recover?: boolean
+}
+
+/**
+ * 分词的诊断信息，由error token生成
+ */
+export type TokenDiagnostic = {
+  message: string
+  start: number
+  end: number
+  loc: SourceLocation
+  // 带^标记的源码片段
+  frame: string
+}
+
+/**
+ * 分词错误
+ * position：无法匹配的位置
+ * lineText：该位置所在的行
+ * frame：带^标记的源码片段
+ *
+ * 流式分词时lineMap只包含缓冲区，由调用方传入完整输入中的position
+ */
+export class TokenizeError extends Error {
+  position: SourcePosition
+  lineText: string
+  frame: string
+
+  constructor (lineMap: LineMap, offset: number, position: SourcePosition = lineMap.positionAt(offset)) {
+    const frame = codeFrame(lineMap, lineMap.positionAt(offset))
+
+    super(`Tokenize error: position ${offset} (line ${position.line}, column ${position.column})\n${frame}`)
+
+    setErrorPrototype(this, TokenizeError.prototype)
+
+    this.name = 'TokenizeError'
+    this.position = position
+    this.lineText = lineMap.lineText(position.line)
+    this.frame = frame
+  }
+}
+
+/**
+ * 规则中的正则转化为sticky的正则，直接从offset开始匹配，不需要截取剩余的输入
+ * 去掉开头的^，没有m标记时$仍然表示输入的结尾
+ */
+const stickyCache = new WeakMap<RegExp, RegExp>()
+
+const toSticky = (regExp: RegExp) => {
+  let sticky = stickyCache.get(regExp)
+
+  if (!sticky) {
+    const source = regExp.source[0] === '^' ? regExp.source.slice(1) : regExp.source
+    sticky = new RegExp(source, regExp.flags.replace(/[gy]/g, '') + 'y')
+    stickyCache.set(regExp, sticky)
+  }
+
+  return sticky
+}
+
+// 从offset开始按规则的顺序匹配
+const match = (input: string, offset: number, ruleList: TokenRuleListType) => {
+  // 剩余的输入只在函数规则需要时截取
+  let rest: string | null = null
+
   for (let rule of ruleList) {
     let match: any = null
 
     if (rule.match instanceof RegExp) {
-      match = input.match(rule.match)
+      const sticky = toSticky(rule.match)
+      sticky.lastIndex = offset
+      match = sticky.exec(input)
       match = match && match[0]
     }
 
     if (rule.match instanceof Function) {
-      match = rule.match(input, originInput)
+      rest = rest === null ? input.slice(offset) : rest
+      match = rule.match(rest, input)
     }
 
     if (match) {
       return {
         match,
         type: rule.type,
-        skip: rule.skip
+        skip: rule.skip,
+        push: rule.push,
+        pop: rule.pop
       }
     }
   }
   return null
 }
 
+// 读取一个字符（码点）作为error token
+const matchError = (input: string, offset: number) => ({
+  match: String.fromCodePoint(input.codePointAt(offset) as number),
+  type: ERROR_TOKEN,
+  skip: false,
+  push: undefined,
+  pop: false
+})
+
+// 恢复模式下无法匹配时，返回error token
+const matchOrError = (input: string, offset: number, ruleList: TokenRuleListType, recover: boolean) => {
+  const matchToken = match(input, offset, ruleList)
+
+  if (matchToken !== null || !recover || offset >= input.length) {
+    return matchToken
+  }
+
+  return matchError(input, offset)
+}
+
+// 计算token的位置，整个输入的行首位置表或者只向后计算的LineCursor
+type LineLocator = Pick<LineMap, 'positionAt' | 'locationOf'>
+
+/**
+ * 加入token，modes不为null时记录模式栈
+ * 相邻的error token合并为一个
+ */
+const pushToken = (tokens: TokenType[], lineMap: LineLocator, type: string, match: string, start: number, modes: string[] | null) => {
+  const last = tokens[tokens.length - 1]
+
+  if (type === ERROR_TOKEN && last && last.type === ERROR_TOKEN && last.end === start) {
+    last.match += match
+    last.end += match.length
+    last.loc = { start: last.loc.start, end: lineMap.positionAt(last.end) }
+    return
+  }
+
+  tokens.push({
+    type,
+    match,
+    start,
+    end: start + match.length,
+    loc: lineMap.locationOf(start, start + match.length),
+    ...(modes ? { modes } : {})
+  })
+}
+
+/**
+ * 模式栈的维护
+ * 传入规则列表时只有default一个模式，token上不记录模式栈
+ */
+const createModes = (rules: TokenRuleListType | TokenModeMapType) => {
+  const withModes = !Array.isArray(rules)
+  const modeMap: TokenModeMapType = Array.isArray(rules) ? { [DEFAULT_MODE]: rules } : rules
+
+  if (!modeMap[DEFAULT_MODE]) {
+    throw new Error(`lexer mode ${DEFAULT_MODE} is required`)
+  }
+
+  Object.keys(modeMap).forEach(mode => {
+    modeMap[mode].forEach(rule => {
+      if (rule.push !== undefined && !modeMap[rule.push]) {
+        throw new Error(`unknown lexer mode ${rule.push}`)
+      }
+    })
+  })
+
+  // 匹配后的模式栈，栈底的模式不会被pop
+  const next = (modes: string[], matchToken: { push?: string, pop?: boolean }) => {
+    let result = modes
+    if (matchToken.pop && result.length > 1) {
+      result = result.slice(0, -1)
+    }
+    if (matchToken.push !== undefined) {
+      result = result.concat(matchToken.push)
+    }
+    return result
+  }
+
+  return {
+    withModes,
+    initial: [DEFAULT_MODE],
+    rulesOf: (modes: string[]) => modeMap[modes[modes.length - 1]],
+    next,
+    same: (a: string[], b: string[]) => a.join('/') === b.join('/')
+  }
+}
+
 /**
  * 分词器
  * 根据正则和方法返回token
+ * rules为规则列表，或者按模式划分的规则（见TokenModeMapType）
  */
-export const tokenize = (input: string, ruleList: TokenRuleListType) => {
+export const tokenize = (input: string, rules: TokenRuleListType | TokenModeMapType, options: TokenizeOptions = {}) => {
+  const modes = createModes(rules)
+  const recover = !!options.recover
+  let currentModes = modes.initial
   let offset = 0
-  let matchToken: any = match(input.slice(offset), input, ruleList)
+  let matchToken = matchOrError(input, offset, modes.rulesOf(currentModes), recover)
+  const lineMap = createLineMap(input)
   const tokens: TokenType[] = []
 
   // 初始token
@@ -52,24 +244,22 @@ export const tokenize = (input: string, ruleList: TokenRuleListType) => {
     type: '^',
     match: '^',
     start: 0,
-    end: 0
+    end: 0,
+    loc: lineMap.locationOf(0, 0),
+    ...(modes.withModes ? { modes: currentModes } : {})
   })
   
   while (matchToken && offset < input.length) {
     if (!matchToken.skip) {
-      tokens.push({
-        type: matchToken.type,
-        match: matchToken.match,
-        start: offset,
-        end: offset + matchToken.match.length,
-      })
+      pushToken(tokens, lineMap, matchToken.type, matchToken.match, offset, modes.withModes ? currentModes : null)
     }
     offset += matchToken.match.length
-    matchToken = match(input.slice(offset), input, ruleList)
+    currentModes = modes.next(currentModes, matchToken)
+    matchToken = matchOrError(input, offset, modes.rulesOf(currentModes), recover)
   }
 
   if (offset < input.length) {
-    throw new Error(`Tokenize error: position ${offset}`)
+    throw new TokenizeError(lineMap, offset)
   }
 
   // 结尾token
@@ -77,8 +267,416 @@ export const tokenize = (input: string, ruleList: TokenRuleListType) => {
     type: '$',
     match: '$',
     start: input.length,
-    end: input.length
+    end: input.length,
+    loc: lineMap.locationOf(input.length, input.length),
+    ...(modes.withModes ? { modes: currentModes } : {})
   })
 
   return tokens
-}
\ No newline at end of file
+}
+
+// 由error token生成诊断信息
+export const collectDiagnostics = (input: string, tokens: TokenType[]): TokenDiagnostic[] => {
+  const lineMap = createLineMap(input)
+
+  return tokens.filter(token => token.type === ERROR_TOKEN).map(token => ({
+    message: `unexpected input ${JSON.stringify(token.match)}`,
+    start: token.start,
+    end: token.end,
+    loc: token.loc,
+    frame: codeFrame(lineMap, token.loc.start)
+  }))
+}
+
+/**
+ * 出错后继续分词
+ * 返回包含error token的token流以及诊断信息，下游的解析器可以据此给出部分结果
+ */
+export const tokenizeWithRecovery = (input: string, rules: TokenRuleListType | TokenModeMapType) => {
+  const tokens = tokenize(input, rules, { recover: true })
+
+  return {
+    tokens,
+    diagnostics: collectDiagnostics(input, tokens)
+  }
+}
+
+/**
+ * 文本的修改：在offset处删除deleteLength个字符，再插入insertText
+ */
+export type TextEdit = {
+  offset: number
+  deleteLength: number
+  insertText: string
+}
+
+export type RetokenizeResult = {
+  // 与传入的prevTokens是同一个数组
+  tokens: TokenType[]
+  // 被替换的token范围，旧的[start, oldEnd)替换为新的[start, newEnd)，与splice一致
+  range: {
+    start: number
+    oldEnd: number
+    newEnd: number
+  }
+}
+
+/**
+ * 增量分词，用于编辑器中的实时分词
+ * input为修改后的输入，prevTokens为修改前tokenize的结果
+ *
+ * 注意：prevTokens会被原地修改为新的token流，返回的tokens就是prevTokens，复用的token对象也原地平移位置
+ * 调用方还需要修改前的token时，需要先自行复制（包括token对象和loc）
+ *
+ * 1. 修改位置之前的token保持不变，从接触到修改位置的token再往前一个token开始重新分词（前向断言可能看到修改的内容）
+ * 2. 越过修改的部分后，一旦重新分词的位置与某个旧token平移后的开始位置重合，且模式栈相同，之后的文本和分词状态都与之前相同，直接复用旧token
+ * 3. 复用的token只平移位置，不重新匹配
+ * 4. 恢复模式下，修改位置之前有error token时从第一个error token开始重新分词
+ *
+ * 行列只对重新分词的部分计算，不需要整个输入的行首位置表
+ *
+ * 要求规则只向后看，且前向断言不会越过下一个token
+ */
+export const retokenize = (
+  input: string,
+  prevTokens: TokenType[],
+  edit: TextEdit,
+  rules: TokenRuleListType | TokenModeMapType,
+  options: TokenizeOptions = {}
+): RetokenizeResult => {
+  const modes = createModes(rules)
+  const recover = !!options.recover
+  const delta = edit.insertText.length - edit.deleteLength
+  const oldEditEnd = edit.offset + edit.deleteLength
+  const newEditEnd = edit.offset + edit.insertText.length
+  const last = prevTokens.length - 1
+
+  // 二分查找第一个结束位置不早于修改位置的token，再往前退一个，开头的^不参与
+  let low = 1
+  let high = last
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (prevTokens[mid].end < edit.offset) {
+      low = mid + 1
+    } else {
+      high = mid
+    }
+  }
+  let start = Math.max(1, low - 1)
+
+  // 无法匹配的原因可能在很远的后面（如缺少结尾引号的字符串），修改后可能匹配，从第一个error token开始重新分词
+  if (recover) {
+    for (let i = 1; i < start; i++) {
+      if (prevTokens[i].type === ERROR_TOKEN) {
+        start = i
+        break
+      }
+    }
+  }
+
+  // 从token的开始位置重新分词，模式栈为匹配这个token之前的模式栈
+  let offset = start === 1 ? 0 : prevTokens[start].start
+  let currentModes = start === 1 ? modes.initial : prevTokens[start].modes || modes.initial
+  let oldIndex = start
+  const cursor = createLineCursor(input, start === 1 ? { offset: 0, line: 1, column: 1 } : prevTokens[start].loc.start)
+  const tokens: TokenType[] = []
+
+  while (true) {
+    // 找到平移后开始位置不早于offset的旧token，修改范围内的旧token不能复用
+    if (offset >= newEditEnd) {
+      while (oldIndex <= last && (prevTokens[oldIndex].start < oldEditEnd || prevTokens[oldIndex].start + delta < offset)) {
+        oldIndex++
+      }
+
+      const old = prevTokens[oldIndex]
+      const lastToken = tokens[tokens.length - 1]
+      // 与新的error token相连的旧error token需要合并，不能直接复用
+      const joinError = old && lastToken && old.type === ERROR_TOKEN && lastToken.type === ERROR_TOKEN && lastToken.end === offset
+
+      if (old && old.start + delta === offset && !joinError && (!modes.withModes || modes.same(old.modes || [], currentModes))) {
+        break
+      }
+    }
+
+    // 一直没有重合时，分词到结尾为止
+    if (offset >= input.length) {
+      tokens.push({
+        type: '$',
+        match: '$',
+        start: input.length,
+        end: input.length,
+        loc: cursor.locationOf(input.length, input.length),
+        ...(modes.withModes ? { modes: currentModes } : {})
+      })
+      oldIndex = last + 1
+      break
+    }
+
+    const matchToken = matchOrError(input, offset, modes.rulesOf(currentModes), recover)
+
+    if (matchToken === null) {
+      throw new TokenizeError(createLineMap(input), offset)
+    }
+
+    if (!matchToken.skip) {
+      pushToken(tokens, cursor, matchToken.type, matchToken.match, offset, modes.withModes ? currentModes : null)
+    }
+    offset += matchToken.match.length
+    currentModes = modes.next(currentModes, matchToken)
+  }
+
+  /**
+   * 复用的token原地平移位置
+   * 与重合位置在同一行的位置平移行列，之后行上的位置只平移行号
+   */
+  if (oldIndex <= last) {
+    const { line: oldLine, column: oldColumn } = prevTokens[oldIndex].loc.start
+    const newPosition = cursor.positionAt(offset)
+    const lineDelta = newPosition.line - oldLine
+    const columnDelta = newPosition.column - oldColumn
+
+    const shift = (position: SourcePosition) => {
+      if (position.line === oldLine) {
+        position.column += columnDelta
+      }
+      position.offset += delta
+      position.line += lineDelta
+    }
+
+    if (delta !== 0 || lineDelta !== 0 || columnDelta !== 0) {
+      for (let i = oldIndex; i <= last; i++) {
+        const token = prevTokens[i]
+        shift(token.loc.start)
+        shift(token.loc.end)
+        token.start += delta
+        token.end += delta
+      }
+    }
+  }
+
+  // 原地替换[start, oldIndex)，新token过多时splice的参数个数可能超出限制，改为逐个加入
+  if (tokens.length < 10000) {
+    prevTokens.splice(start, oldIndex - start, ...tokens)
+  } else {
+    const rest = prevTokens.slice(oldIndex)
+    prevTokens.length = start
+    tokens.forEach(token => prevTokens.push(token))
+    rest.forEach(token => prevTokens.push(token))
+  }
+
+  return {
+    tokens: prevTokens,
+    range: {
+      start,
+      oldEnd: oldIndex,
+      newEnd: start + tokens.length
+    }
+  }
+}
+
+export type StreamTokenizeOptions = TokenizeOptions & {
+  /**
+   * 缓冲区中token开始位置之后至少要有多少个字符才开始匹配（输入结束后不再要求）
+   * 规则的判断（包括前向断言、匹配失败后尝试下一条规则）需要只依赖这个范围内的字符，默认1024
+   */
+  lookahead?: number
+}
+
+/**
+ * 流式分词器，输入按块写入，返回已经确定的token
+ * write：写入一块输入，返回这一块之后可以确定的token
+ * end：输入结束，返回剩余的token以及结尾token
+ *
+ * 跨块的token（如<=>>、带转义的字符串）在下一块到达前不会返回：
+ * 1. 剩余的输入不足lookahead个字符时等待下一块
+ * 2. 匹配到缓冲区结尾的token可能还会变长，等待下一块
+ * 3. 无法匹配时等到读完这一行再报错或者产生error token，比lookahead长的字符串等token可能还没有读完（跨行的token不能比lookahead长）
+ * 4. 恢复模式下error token等到下一个token确定后才返回，保证相邻的error token已经合并
+ *
+ * 缓冲区只保留当前位置之前lookahead个字符（不超过当前行的开头）之后的输入，单行的长输入也不会整个保留
+ * 函数规则的originInput为缓冲区而不是完整的输入，出错时源码片段中的当前行可能只有后面一部分
+ * 得到的token与对完整输入tokenize的结果相同
+ */
+export const createTokenizer = (rules: TokenRuleListType | TokenModeMapType, options: StreamTokenizeOptions = {}) => {
+  const modes = createModes(rules)
+  const recover = !!options.recover
+  const lookahead = options.lookahead === undefined ? 1024 : options.lookahead
+  let currentModes = modes.initial
+  // buffer[0]在完整输入中的位置、行号和列号
+  let buffer = ''
+  let base = 0
+  let bufferLine = 1
+  // 缓冲区中这个位置之前没有换行符，等待读完一行时不需要重复查找
+  let lineEndFrom = 0
+  // 当前分词的位置，以及所在行的行号和开始位置
+  let offset = 0
+  let line = 1
+  let lineStart = 0
+  let started = false
+  let ended = false
+  let pendingError: TokenType | null = null
+
+  const position = (): SourcePosition => ({ offset, line, column: offset - lineStart + 1 })
+
+  // 缓冲区上的行首位置表，位置和行号换算为完整输入中的值，只在出错时创建
+  // 列号相对于缓冲区中这一行的开头，与lineText一致，用于生成源码片段
+  const bufferLineMap = (): LineMap => {
+    const local = createLineMap(buffer)
+    const positionAt = (at: number) => {
+      const { line, column } = local.positionAt(at - base)
+      return { offset: at, line: line + bufferLine - 1, column }
+    }
+
+    return {
+      positionAt,
+      locationOf: (start: number, end: number) => ({ start: positionAt(start), end: positionAt(end) }),
+      lineText: (line: number) => local.lineText(line - bufferLine + 1)
+    }
+  }
+
+  const boundaryToken = (type: string): TokenType => ({
+    type,
+    match: type,
+    start: offset,
+    end: offset,
+    loc: { start: position(), end: position() },
+    ...(modes.withModes ? { modes: currentModes } : {})
+  })
+
+  const pump = () => {
+    const tokens: TokenType[] = []
+
+    if (!started) {
+      started = true
+      tokens.push(boundaryToken('^'))
+    }
+
+    while (offset < base + buffer.length) {
+      const local = offset - base
+
+      if (!ended && buffer.length - local < lookahead) {
+        break
+      }
+
+      let matchToken = match(buffer, local, modes.rulesOf(currentModes))
+
+      if (matchToken === null) {
+        // 等到读完这一行，跨块的token可能还没有读完，错误信息中的源码片段也才完整
+        if (!ended) {
+          const lineEnd = buffer.indexOf('\n', Math.max(local, lineEndFrom - base))
+          if (lineEnd === -1) {
+            lineEndFrom = base + buffer.length
+            break
+          }
+        }
+        if (!recover) {
+          throw new TokenizeError(bufferLineMap(), offset, position())
+        }
+        matchToken = matchError(buffer, local)
+      }
+      if (!ended && local + matchToken.match.length >= buffer.length) {
+        break
+      }
+
+      const start = position()
+      for (let i = 0; i < matchToken.match.length; i++) {
+        if (matchToken.match[i] === '\n') {
+          line++
+          lineStart = offset + i + 1
+        }
+      }
+      const token: TokenType = {
+        type: matchToken.type,
+        match: matchToken.match,
+        start: offset,
+        end: offset + matchToken.match.length,
+        loc: { start, end: { offset: offset + matchToken.match.length, line, column: offset + matchToken.match.length - lineStart + 1 } },
+        ...(modes.withModes ? { modes: currentModes } : {})
+      }
+
+      if (matchToken.type === ERROR_TOKEN) {
+        if (pendingError && pendingError.end === token.start) {
+          pendingError.match += token.match
+          pendingError.end = token.end
+          pendingError.loc = { start: pendingError.loc.start, end: token.loc.end }
+        } else {
+          pendingError = token
+        }
+      } else {
+        if (pendingError) {
+          tokens.push(pendingError)
+          pendingError = null
+        }
+        if (!matchToken.skip) {
+          tokens.push(token)
+        }
+      }
+
+      offset = token.end
+      currentModes = modes.next(currentModes, matchToken)
+    }
+
+    // 丢弃当前位置之前lookahead个字符以前的输入，最多丢弃到当前行的开头
+    const keep = Math.max(lineStart, offset - lookahead)
+    buffer = buffer.slice(keep - base)
+    base = keep
+    bufferLine = line
+
+    return tokens
+  }
+
+  const write = (chunk: string) => {
+    if (ended) {
+      throw new Error('write after end')
+    }
+    buffer += chunk
+    return pump()
+  }
+
+  const end = () => {
+    ended = true
+    const tokens = pump()
+
+    if (pendingError) {
+      tokens.push(pendingError)
+      pendingError = null
+    }
+    tokens.push(boundaryToken('$'))
+
+    return tokens
+  }
+
+  return {
+    write,
+    end
+  }
+}
+
+/**
+ * 对输入块的序列分词，逐个产出token
+ */
+export function* tokenizeChunks (chunks: Iterable<string>, rules: TokenRuleListType | TokenModeMapType, options: StreamTokenizeOptions = {}) {
+  const tokenizer = createTokenizer(rules, options)
+  const iterator = chunks[Symbol.iterator]()
+
+  for (let result = iterator.next(); !result.done; result = iterator.next()) {
+    yield* tokenizer.write(result.value)
+  }
+  yield* tokenizer.end()
+}
+
+/**
+ * 对异步的输入块（如fs.createReadStream）分词
+ * Buffer按utf8解码，多字节字符可以跨Buffer块
+ * 字符串块之前先输出解码器中剩余的字节（不完整的字符解码为U+FFFD），保证输入的顺序不变
+ */
+export async function* tokenizeStream (source: AsyncIterable<string | Buffer>, rules: TokenRuleListType | TokenModeMapType, options: StreamTokenizeOptions = {}) {
+  const tokenizer = createTokenizer(rules, options)
+  const decoder = new StringDecoder('utf8')
+
+  for await (const chunk of source) {
+    yield* tokenizer.write(typeof chunk === 'string' ? decoder.end() + chunk : decoder.write(chunk))
+  }
+  yield* tokenizer.write(decoder.end())
+  yield* tokenizer.end()
+}